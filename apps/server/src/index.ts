@@ -11,12 +11,16 @@ import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { proxy } from "hono/proxy";
 import { serveStatic } from "hono/serve-static";
-import { StreamableHTTPTransport } from "@hono/mcp";
-import { createMcpServer } from "./mcp/index.js";
+import { handleMcpRequest, listMcpSessions } from "./mcp/sessions.js";
 import { existsSync } from "node:fs";
 import { readFile, stat } from "node:fs/promises";
 import { join } from "node:path";
-import { logger as appLogger } from "@kinetic-context/server-utils";
+import {
+  logger as appLogger,
+  startAutoFetchScheduler,
+  startCloneEviction,
+  startJobQueue,
+} from "@kinetic-context/server-utils";
 
 const app = new Hono();
 
@@ -50,24 +54,11 @@ export const rpcHandler = new RPCHandler(appRouter, {
   ],
 });
 
-// Initialize MCP server
-const mcpServer = createMcpServer();
-const mcpTransport = new StreamableHTTPTransport();
+// MCP endpoint: one server + transport per Mcp-Session-Id
+app.all("/mcp", (c) => handleMcpRequest(c));
 
-// Connect MCP server to transport (lazy connection on first request)
-let mcpConnected = false;
-async function ensureMcpConnected() {
-  if (!mcpConnected) {
-    await mcpServer.connect(mcpTransport);
-    mcpConnected = true;
-  }
-}
-
-// MCP endpoint
-app.all("/mcp", async (c) => {
-  await ensureMcpConnected();
-  return mcpTransport.handleRequest(c);
-});
+// Connected MCP clients
+app.get("/mcp/sessions", (c) => c.json({ sessions: listMcpSessions() }));
 
 // API routes
 app.use("/*", async (c, next) => {
@@ -176,3 +167,12 @@ serve(
     appLogger.log("[server]", `Server is running on http://localhost:${info.port}`);
   },
 );
+
+startJobQueue()
+  .then(() => {
+    startAutoFetchScheduler();
+    startCloneEviction();
+  })
+  .catch((error) => {
+    appLogger.error("[server]", "Failed to start job queue:", error);
+  });
@@ -4,15 +4,31 @@ import { z } from "zod";
 import { env } from "@kinetic-context/env/server";
 import {
   listPackageConfigs,
-  listProjectConfigs,
-  readPackageConfig,
   readProjectConfig,
-  ensureRepoAvailable,
-  checkoutTag,
-  queryOpencode,
-  generateKctxHelperIfNeeded,
-  type PackageConfig,
+  locateDependencyRepo,
+  recordPackageAccess,
+  resolveDependencyRepo,
+  resolveDependencyTag,
+  resolveTagSpec,
+  listTags,
+  listBranches,
+  compareRefs,
+  explainVersionComparison,
+  searchRepository,
+  listRepositoryTree,
+  readRepositoryFile,
+  listArchiveTags,
+  resolveArchiveVersion,
 } from "@kinetic-context/server-utils";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { createProgressReporter } from "./progress.js";
+import { createProjectResolver, workspaceArgs } from "./project.js";
+import {
+  listProjectDependencyIdentifiers,
+  queryDependencies,
+  queryDependency,
+} from "./query.js";
 
 export function createMcpServer(): McpServer {
   const mcpServer = new McpServer(
@@ -23,22 +39,54 @@ export function createMcpServer(): McpServer {
     {
       capabilities: {
         tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
       },
     },
   );
 
+  registerResources(mcpServer);
+  registerPrompts(mcpServer);
+
+  const resolveProject = createProjectResolver(mcpServer);
+
   // Tool: list_project_dependencies
   mcpServer.tool(
     "list_project_dependencies",
     "Lists the dependencies configured for a project. These dependencies can be queried using query_dependency to ask usage questions about how to use them.",
     {
-      project_identifier: z.string().describe("The project identifier"),
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "The project identifier. If omitted, the project is found from workspace_path, git_remote or the client's roots",
+        ),
+      ...workspaceArgs,
     },
-    async ({ project_identifier }): Promise<CallToolResult> => {
+    async ({ project_identifier, workspace_path, git_remote }, extra): Promise<CallToolResult> => {
       try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        if (!projectIdentifier) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Could not determine the project from the workspace. Pass project_identifier, workspace_path or git_remote.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
         const project = await readProjectConfig(
           env.PROJECTS_DIR,
-          project_identifier,
+          projectIdentifier,
         );
 
         if (!project) {
@@ -46,7 +94,7 @@ export function createMcpServer(): McpServer {
             content: [
               {
                 type: "text",
-                text: `Project "${project_identifier}" not found`,
+                text: `Project "${projectIdentifier}" not found`,
               },
             ],
             isError: true,
@@ -131,14 +179,15 @@ export function createMcpServer(): McpServer {
   // Tool: query_dependency
   mcpServer.tool(
     "query_dependency",
-    "Ask questions about how to use a dependency. Analyzes the dependency's source code using OpenCode to provide intelligent answers about usage patterns, APIs, and best practices. This is for asking usage questions (e.g., 'How do I validate forms with zod?'), not for querying dependency metadata. The default timeout is 180 seconds (3 minutes). Only adjust the timeout when the user explicitly agrees. If you have multiple questions about different dependencies, ask each question independently using separate query_dependency calls. Call list_dependencies first to ensure the correct package identifier is used.",
+    "Ask questions about how to use a dependency. Analyzes the dependency's source code using OpenCode to provide intelligent answers about usage patterns, APIs, and best practices. This is for asking usage questions (e.g., 'How do I validate forms with zod?'), not for querying dependency metadata. The default timeout is 180 seconds (3 minutes). Only adjust the timeout when the user explicitly agrees. If you have different questions about different dependencies, ask each question independently using separate query_dependency calls; to ask the same question about several dependencies at once, use query_dependencies. Call list_dependencies first to ensure the correct package identifier is used.",
     {
       project_identifier: z
         .string()
         .optional()
         .describe(
-          "Optional project identifier. If provided and the project has a tag for this dependency, that tag will be checked out before querying",
+          "Optional project identifier. If provided and the project has a tag for this dependency, that tag will be checked out before querying. If omitted, the project is found from workspace_path, git_remote or the client's roots when possible",
         ),
+      ...workspaceArgs,
       dependency_identifier: z
         .string()
         .describe("The dependency identifier to query"),
@@ -158,25 +207,33 @@ export function createMcpServer(): McpServer {
     },
     async ({
       project_identifier,
+      workspace_path,
+      git_remote,
       dependency_identifier,
       query,
       sessionId,
       timeout,
-    }): Promise<CallToolResult> => {
+    }, extra): Promise<CallToolResult> => {
       try {
-        // Get package config from either directory (cloned first, then local)
-        let packageConfig = await readPackageConfig(
-          env.PACKAGES_DIR,
-          dependency_identifier,
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
         );
-        if (!packageConfig) {
-          packageConfig = await readPackageConfig(
-            env.LOCAL_PACKAGES_DIR,
-            dependency_identifier,
-          );
-        }
 
-        if (!packageConfig) {
+        // Resolves package, tag (project pin or default) and repo path, then queries opencode,
+        // streaming progress when the client asked for it.
+        // extra.signal fires on notifications/cancelled and aborts the OpenCode session.
+        const result = await queryDependency({
+          dependencyIdentifier: dependency_identifier,
+          projectIdentifier,
+          query,
+          sessionId,
+          timeoutMs: timeout != null ? timeout * 1000 : undefined,
+          onProgress: createProgressReporter(extra),
+          signal: extra.signal,
+        });
+
+        if (!result) {
           return {
             content: [
               {
@@ -188,57 +245,345 @@ export function createMcpServer(): McpServer {
           };
         }
 
-        // Determine which tag to use (only for cloned repos)
-        let tag = packageConfig.default_tag;
-        if (project_identifier) {
-          const project = await readProjectConfig(
-            env.PROJECTS_DIR,
-            project_identifier,
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  response: result.response,
+                  sessionId: result.sessionId,
+                  project: projectIdentifier,
+                  tag: result.tag,
+                  tag_spec: result.tagSpec,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying dependency: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: query_dependencies
+  mcpServer.tool(
+    "query_dependencies",
+    "Ask the same usage question about several dependencies at once, e.g. 'How does each of these libraries handle retries?'. Pass dependency_identifiers, or only project_identifier to ask about every dependency of that project. Queries run concurrently (within the server's limit) and answers are returned keyed by dependency identifier; a failing dependency reports its error without failing the others. The timeout applies to each dependency separately.",
+    {
+      dependency_identifiers: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "The dependency identifiers to query. If omitted, all dependencies of project_identifier are queried.",
+        ),
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "Optional project identifier. Tags pinned by the project are checked out before querying; required when dependency_identifiers is omitted",
+        ),
+      ...workspaceArgs,
+      query: z.string().describe("The question to ask about each dependency"),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Optional maximum number of dependencies queried at the same time. Cannot exceed the server's limit (MCP_QUERY_CONCURRENCY, default 3).",
+        ),
+      timeout: z
+        .number()
+        .optional()
+        .describe(
+          "Optional timeout in seconds per dependency. Default is 180 (3 minutes). Only set this if the user has agreed to a different timeout.",
+        ),
+    },
+    async ({
+      dependency_identifiers,
+      project_identifier,
+      workspace_path,
+      git_remote,
+      query,
+      concurrency,
+      timeout,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        let identifiers = dependency_identifiers;
+        if (!identifiers || identifiers.length === 0) {
+          if (!projectIdentifier) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "Provide dependency_identifiers or a project_identifier",
+                },
+              ],
+              isError: true,
+            };
+          }
+          const projectDependencies = await listProjectDependencyIdentifiers(
+            projectIdentifier,
           );
-          if (project) {
-            const dep = project.dependencies.find(
-              (d) => d.identifier === dependency_identifier,
-            );
-            if (dep?.tag) {
-              tag = dep.tag;
-            }
+          if (!projectDependencies) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Project "${projectIdentifier}" not found`,
+                },
+              ],
+              isError: true,
+            };
           }
+          identifiers = projectDependencies;
         }
 
-        // Ensure repo is available (cloned or local); use correct packagesDir by storage_type
-        const packagesDir =
-          packageConfig.storage_type === "local"
-            ? env.LOCAL_PACKAGES_DIR
-            : env.PACKAGES_DIR;
-        const repoPath = await ensureRepoAvailable(
-          packageConfig.repo_path,
-          packageConfig.storage_type,
-          packageConfig.urls.git,
-          packagesDir,
+        const results = await queryDependencies({
+          dependencyIdentifiers: identifiers,
+          projectIdentifier,
+          query,
+          concurrency,
+          timeoutMs: timeout != null ? timeout * 1000 : undefined,
+          onProgress: createProgressReporter(extra),
+          signal: extra.signal,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ results }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error querying dependencies: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: search_dependency
+  mcpServer.tool(
+    "search_dependency",
+    "Fast text search over a dependency's source code (no LLM involved). Returns matching files and line numbers with surrounding lines. Use this for 'where is X defined/used' questions before falling back to query_dependency. The repository is searched at the same tag query_dependency would use.",
+    {
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "Optional project identifier. If provided and the project has a tag for this dependency, that tag is searched",
+        ),
+      ...workspaceArgs,
+      dependency_identifier: z
+        .string()
+        .describe("The dependency identifier to search"),
+      pattern: z.string().min(1).describe("The text or regular expression to search for"),
+      mode: z
+        .enum(["literal", "regex"])
+        .optional()
+        .describe("Whether pattern is a literal string (default) or a POSIX extended regular expression"),
+      case_sensitive: z
+        .boolean()
+        .optional()
+        .describe("Match case exactly. Default is false"),
+      path: z
+        .string()
+        .optional()
+        .describe("Optional glob limiting the files searched, e.g. 'src/**/*.ts'"),
+      max_results: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .optional()
+        .describe("Maximum number of matches to return. Default is 50"),
+      context_lines: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe("Lines of context before and after each match. Default is 2"),
+    },
+    async ({
+      project_identifier,
+      workspace_path,
+      git_remote,
+      dependency_identifier,
+      pattern,
+      mode,
+      case_sensitive,
+      path,
+      max_results,
+      context_lines,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        const resolved = await resolveDependencyRepo(
+          dependency_identifier,
+          projectIdentifier,
         );
 
-        // Only checkout tag for cloned repos
-        if (packageConfig.storage_type === "cloned" && tag) {
-          await checkoutTag(repoPath, tag);
+        if (!resolved) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" not found`,
+              },
+            ],
+            isError: true,
+          };
         }
 
-        // Query opencode
-        const timeoutMs = timeout != null ? timeout * 1000 : undefined;
-        const kctxHelper = packageConfig.kctx_helper ?? "";
-        const result = await queryOpencode(repoPath, query, sessionId, timeoutMs, kctxHelper);
+        await recordPackageAccess(resolved.packageConfig);
+        const result = await searchRepository(resolved.repoPath, pattern, {
+          mode,
+          caseSensitive: case_sensitive,
+          path,
+          maxResults: max_results,
+          contextLines: context_lines,
+        }).finally(resolved.release);
 
-        if (!sessionId && !kctxHelper.trim()) {
-          void generateKctxHelperIfNeeded(packagesDir, dependency_identifier, repoPath);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dependency: dependency_identifier,
+                  tag: resolved.tag,
+                  tag_spec: resolved.tagSpec,
+                  matches: result.matches,
+                  truncated: result.truncated,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching dependency: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: list_dependency_tree
+  mcpServer.tool(
+    "list_dependency_tree",
+    "Lists the files and directories in a dependency's repository at the tag query_dependency would use. Use it to find entry points and files to read with read_dependency_file.",
+    {
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "Optional project identifier. If provided and the project has a tag for this dependency, that tag is listed",
+        ),
+      ...workspaceArgs,
+      dependency_identifier: z
+        .string()
+        .describe("The dependency identifier"),
+      path: z
+        .string()
+        .optional()
+        .describe("Optional directory relative to the package root (its subpath in a monorepo, otherwise the repository root). Defaults to the package root"),
+      depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("How many directory levels to list. Default is 2"),
+    },
+    async ({
+      project_identifier,
+      workspace_path,
+      git_remote,
+      dependency_identifier,
+      path,
+      depth,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        const resolved = await resolveDependencyRepo(
+          dependency_identifier,
+          projectIdentifier,
+        );
+
+        if (!resolved) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" not found`,
+              },
+            ],
+            isError: true,
+          };
         }
 
+        await recordPackageAccess(resolved.packageConfig);
+        const tree = await listRepositoryTree(resolved.repoPath, path ?? "", { depth }).finally(
+          resolved.release,
+        );
+
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  response: result.response,
-                  sessionId: result.sessionId,
+                  dependency: dependency_identifier,
+                  tag: resolved.tag,
+                  tag_spec: resolved.tagSpec,
+                  entries: tree.entries,
+                  truncated: tree.truncated,
                 },
                 null,
                 2,
@@ -251,7 +596,359 @@ export function createMcpServer(): McpServer {
           content: [
             {
               type: "text",
-              text: `Error querying dependency: ${
+              text: `Error listing dependency tree: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: read_dependency_file
+  mcpServer.tool(
+    "read_dependency_file",
+    "Reads a file from a dependency's repository at the tag query_dependency would use, optionally limited to a line range. Output is capped at about 100KB; check 'truncated' and request the next range if needed.",
+    {
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "Optional project identifier. If provided and the project has a tag for this dependency, the file is read at that tag",
+        ),
+      ...workspaceArgs,
+      dependency_identifier: z
+        .string()
+        .describe("The dependency identifier"),
+      path: z.string().min(1).describe("File path relative to the package root (its subpath in a monorepo, otherwise the repository root), e.g. 'src/index.ts'"),
+      start_line: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("First line to return (1-based, inclusive)"),
+      end_line: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Last line to return (1-based, inclusive)"),
+    },
+    async ({
+      project_identifier,
+      workspace_path,
+      git_remote,
+      dependency_identifier,
+      path,
+      start_line,
+      end_line,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        const resolved = await resolveDependencyRepo(
+          dependency_identifier,
+          projectIdentifier,
+        );
+
+        if (!resolved) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await recordPackageAccess(resolved.packageConfig);
+        const file = await readRepositoryFile(resolved.repoPath, path, {
+          startLine: start_line,
+          endLine: end_line,
+        }).finally(resolved.release);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dependency: dependency_identifier,
+                  tag: resolved.tag,
+                  tag_spec: resolved.tagSpec,
+                  ...file,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error reading dependency file: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: list_dependency_versions
+  mcpServer.tool(
+    "list_dependency_versions",
+    "Lists the tags (releases) and branches of a dependency's repository, with tag dates and annotated tag messages; for archive packages, the versions published to the registry. Use it to find valid versions for compare_dependency_versions or to see which version a project pins compared to the latest release.",
+    {
+      project_identifier: z
+        .string()
+        .optional()
+        .describe(
+          "Optional project identifier. If provided, the tag the project pins for this dependency is included",
+        ),
+      ...workspaceArgs,
+      dependency_identifier: z
+        .string()
+        .describe("The dependency identifier"),
+      sort: z
+        .enum(["semver", "date"])
+        .optional()
+        .describe(
+          "\"semver\" (default): highest version first, non-version tags after; \"date\": newest first",
+        ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .optional()
+        .describe("Maximum number of tags to return. Default 50"),
+      fetch: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, fetch new tags from the remote first. Slower; use when a recent release is missing",
+        ),
+    },
+    async ({
+      project_identifier,
+      workspace_path,
+      git_remote,
+      dependency_identifier,
+      sort,
+      limit,
+      fetch,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const projectIdentifier = await resolveProject(
+          { project_identifier, workspace_path, git_remote },
+          extra,
+        );
+        const located = await locateDependencyRepo(dependency_identifier);
+
+        if (!located) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const { packageConfig, repoPath } = located;
+        const isArchive = packageConfig.storage_type === "archive";
+        const tags = isArchive
+          ? await listArchiveTags(packageConfig)
+          : await listTags(repoPath, { sort, fetch });
+        const { branches } = isArchive
+          ? { branches: [] as string[] }
+          : await listBranches(repoPath).catch(() => ({
+              branches: [] as string[],
+            }));
+        const projectTag = projectIdentifier
+          ? await resolveDependencyTag(packageConfig, projectIdentifier)
+          : undefined;
+        // The tag a range like "^4.1" currently resolves to
+        const projectTagResolved = !projectTag
+          ? undefined
+          : packageConfig.storage_type === "cloned"
+            ? await resolveTagSpec(repoPath, projectTag, packageConfig.identifier)
+            : isArchive
+              ? await resolveArchiveVersion(packageConfig, projectTag).catch(() => null)
+              : undefined;
+        const maxTags = limit ?? 50;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dependency: dependency_identifier,
+                  default_tag: packageConfig.default_tag,
+                  project: projectIdentifier,
+                  project_tag: projectTag,
+                  ...(projectTagResolved !== projectTag
+                    ? { project_tag_resolved: projectTagResolved }
+                    : {}),
+                  totalTags: tags.length,
+                  tags: tags.slice(0, maxTags),
+                  truncated: tags.length > maxTags,
+                  branches,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing dependency versions: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // Tool: compare_dependency_versions
+  mcpServer.tool(
+    "compare_dependency_versions",
+    "Compare two versions (tags or branches) of a dependency for upgrade questions. Returns a structured summary: changed files with line counts, the git log between the versions, and exported symbols that were added, removed or changed. Set explain=true to also have an AI agent explain the breaking changes and how to migrate, with both versions available to it; this is much slower.",
+    {
+      dependency_identifier: z
+        .string()
+        .describe("The dependency identifier to compare"),
+      from: z
+        .string()
+        .describe("The older tag or branch, e.g. \"v3.23.8\""),
+      to: z
+        .string()
+        .describe("The newer tag or branch, e.g. \"v4.0.0\""),
+      path: z
+        .string()
+        .optional()
+        .describe(
+          "Optional directory or glob to limit the comparison to, e.g. \"packages/core\" in a monorepo. Relative to the package's subpath when it has one",
+        ),
+      explain: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, also ask the AI agent to explain the breaking changes between the versions. Default false.",
+        ),
+      focus: z
+        .string()
+        .optional()
+        .describe(
+          "Optional question to focus the explanation on, e.g. \"error handling\". Only used with explain=true.",
+        ),
+      timeout: z
+        .number()
+        .optional()
+        .describe(
+          "Optional timeout in seconds for the explanation. Default is 180 (3 minutes). Only set this if the user has agreed to a different timeout.",
+        ),
+    },
+    async ({
+      dependency_identifier,
+      from,
+      to,
+      path,
+      explain,
+      focus,
+      timeout,
+    }, extra): Promise<CallToolResult> => {
+      try {
+        const located = await locateDependencyRepo(dependency_identifier);
+
+        if (!located) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (located.packageConfig.storage_type === "archive") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Dependency "${dependency_identifier}" is an archive package; comparing versions needs git history`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const comparison = await compareRefs(located.repoPath, from, to, {
+          path,
+          subpath: located.packageConfig.subpath,
+        });
+
+        let explanation: { response: string; sessionId: string } | undefined;
+        if (explain) {
+          explanation = await explainVersionComparison(located, comparison, {
+            focus,
+            timeoutMs: timeout != null ? timeout * 1000 : undefined,
+            onProgress: createProgressReporter(extra),
+            signal: extra.signal,
+          });
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dependency: dependency_identifier,
+                  ...comparison,
+                  ...(explanation
+                    ? {
+                        explanation: explanation.response,
+                        sessionId: explanation.sessionId,
+                      }
+                    : {}),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error comparing dependency versions: ${
                 error instanceof Error ? error.message : String(error)
               }`,
             },
@@ -263,4 +960,4 @@ export function createMcpServer(): McpServer {
   );
 
   return mcpServer;
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { logger, type OpencodeProgress } from "@kinetic-context/server-utils";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Keep individual notifications small; clients typically show them as a status line
+const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * If the client sent a progress token with the request, return a callback that forwards
+ * OpenCode progress as notifications/progress. Returns undefined when no token was sent.
+ * Pass `source` to label updates when several queries report on one request.
+ */
+export function createProgressReporter(
+  extra: ToolExtra,
+): ((progress: OpencodeProgress, source?: string) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  // Shared across sources: progress must increase for the whole request
+  let progress = 0;
+  return (update: OpencodeProgress, source?: string) => {
+    progress += 1;
+    const label = update.type === "thinking" ? "[thinking] " : "";
+    const text = `${source ? `[${source}] ` : ""}${label}${update.text}`;
+    const message =
+      text.length > MAX_MESSAGE_LENGTH
+        ? `${text.slice(0, MAX_MESSAGE_LENGTH)}…`
+        : text;
+
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      })
+      .catch((error: unknown) => {
+        logger.error("[mcp]", `Failed to send progress notification:`, error);
+      });
+  };
+}
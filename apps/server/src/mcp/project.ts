@@ -0,0 +1,93 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ListRootsResultSchema,
+  RootsListChangedNotificationSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { logger, resolveProjectFromWorkspace } from "@kinetic-context/server-utils";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Don't hold up a tool call on a client that never answers roots/list
+const ROOTS_TIMEOUT_MS = 5000;
+
+/**
+ * Tool parameters that let the server find the project when project_identifier is omitted.
+ */
+export const workspaceArgs = {
+  workspace_path: z
+    .string()
+    .optional()
+    .describe(
+      "Optional absolute path of the workspace you are working in. Used to find the project automatically when project_identifier is omitted.",
+    ),
+  git_remote: z
+    .string()
+    .optional()
+    .describe(
+      "Optional git remote URL of the workspace (e.g. from `git remote get-url origin`). Used to find the project automatically when project_identifier is omitted.",
+    ),
+};
+
+export type ProjectResolver = (
+  args: { project_identifier?: string; workspace_path?: string; git_remote?: string },
+  extra: ToolExtra,
+) => Promise<string | undefined>;
+
+/**
+ * Create the project resolver for one MCP server. An explicit project_identifier wins;
+ * otherwise workspace_path/git_remote are matched against ProjectConfig.urls.git, and
+ * without those the client's roots (if it supports them) are used. Roots are cached
+ * until the client sends notifications/roots/list_changed.
+ */
+export function createProjectResolver(mcpServer: McpServer): ProjectResolver {
+  let roots: Promise<string[]> | null = null;
+
+  mcpServer.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    roots = null;
+  });
+
+  const listRoots = async (extra: ToolExtra): Promise<string[]> => {
+    if (!mcpServer.server.getClientCapabilities()?.roots) {
+      return [];
+    }
+    try {
+      const result = await extra.sendRequest(
+        { method: "roots/list" },
+        ListRootsResultSchema,
+        { timeout: ROOTS_TIMEOUT_MS },
+      );
+      return result.roots.map((root) => root.uri);
+    } catch (error) {
+      logger.warn("[mcp]", `Failed to list client roots:`, error instanceof Error ? error.message : String(error));
+      // Ask again next time instead of caching the failure
+      roots = null;
+      return [];
+    }
+  };
+
+  return async (args, extra) => {
+    if (args.project_identifier) {
+      return args.project_identifier;
+    }
+
+    let workspacePaths = args.workspace_path ? [args.workspace_path] : [];
+    const gitRemotes = args.git_remote ? [args.git_remote] : [];
+    if (workspacePaths.length === 0 && gitRemotes.length === 0) {
+      roots ??= listRoots(extra);
+      workspacePaths = await roots;
+    }
+    if (workspacePaths.length === 0 && gitRemotes.length === 0) {
+      return undefined;
+    }
+
+    const match = await resolveProjectFromWorkspace({ gitRemotes, workspacePaths });
+    if (match) {
+      logger.log("[mcp]", `Resolved project "${match.identifier}" (${match.matchedBy}: ${match.value})`);
+    }
+    return match?.identifier;
+  };
+}
@@ -0,0 +1,182 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { env } from "@kinetic-context/env/server";
+import {
+  listPackageConfigs,
+  listProjectConfigs,
+} from "@kinetic-context/server-utils";
+
+async function completeDependencyIdentifier(value: string): Promise<string[]> {
+  const clonedPackages = await listPackageConfigs(env.PACKAGES_DIR);
+  const localPackages = await listPackageConfigs(env.LOCAL_PACKAGES_DIR);
+  return [...clonedPackages, ...localPackages]
+    .map((pkg) => pkg.identifier)
+    .filter((identifier) => identifier.startsWith(value))
+    .sort();
+}
+
+async function completeProjectIdentifier(value: string): Promise<string[]> {
+  const projects = await listProjectConfigs(env.PROJECTS_DIR);
+  return projects
+    .map((project) => project.identifier)
+    .filter((identifier) => identifier.startsWith(value))
+    .sort();
+}
+
+function dependencyArg() {
+  return completable(
+    z.string().describe("The dependency identifier (see list_dependencies)"),
+    completeDependencyIdentifier,
+  );
+}
+
+function projectArg() {
+  return completable(
+    z
+      .string()
+      .optional()
+      .describe(
+        "Optional project identifier. The dependency is queried at the tag pinned by this project",
+      ),
+    (value) => completeProjectIdentifier(value ?? ""),
+  );
+}
+
+/**
+ * Build the user message for a prompt: a concrete query_dependency call plus
+ * instructions for following up in the same session.
+ */
+function queryDependencyWorkflow(options: {
+  dependencyIdentifier: string;
+  projectIdentifier?: string;
+  query: string;
+  guidance: string[];
+}): GetPromptResult {
+  const args: Record<string, string> = {
+    dependency_identifier: options.dependencyIdentifier,
+  };
+  if (options.projectIdentifier) {
+    args.project_identifier = options.projectIdentifier;
+  }
+  args.query = options.query;
+
+  const steps = [
+    `Use the kinetic-context \`query_dependency\` tool to answer this question from the source code of "${options.dependencyIdentifier}".`,
+    "",
+    "1. Call `query_dependency` with these arguments:",
+    "",
+    "```json",
+    JSON.stringify(args, null, 2),
+    "```",
+    "",
+    "2. Keep the `sessionId` from the response. If the answer is incomplete, ask follow-up questions with `query_dependency`, passing the same `dependency_identifier` and that `sessionId`.",
+    "3. Do not change the `timeout` unless the user has agreed to it.",
+    ...options.guidance.map((line, index) => `${index + 4}. ${line}`),
+  ];
+
+  return {
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: steps.join("\n"),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Registers reusable question templates as MCP prompts.
+ * Each prompt expands into a query_dependency workflow so the same question
+ * is asked the same way regardless of which client sends it.
+ */
+export function registerPrompts(mcpServer: McpServer): void {
+  mcpServer.prompt(
+    "explain-api",
+    "Explain a dependency's API (a function, class, hook or module) with signatures and usage examples.",
+    {
+      dependency_identifier: dependencyArg(),
+      project_identifier: projectArg(),
+      api: z.string().describe("The API to explain, e.g. 'z.discriminatedUnion' or 'useForm'"),
+    },
+    async ({ dependency_identifier, project_identifier, api }) =>
+      queryDependencyWorkflow({
+        dependencyIdentifier: dependency_identifier,
+        projectIdentifier: project_identifier,
+        query: `Explain the \`${api}\` API. Where is it defined? What are its parameters, return type and options? Show typical usage with code examples, and mention common pitfalls.`,
+        guidance: [
+          "Summarize the answer for the user with the signature first, then the examples.",
+        ],
+      }),
+  );
+
+  mcpServer.prompt(
+    "migration-guide",
+    "Describe how to migrate code that uses a dependency from one tag or version to another.",
+    {
+      dependency_identifier: dependencyArg(),
+      project_identifier: projectArg(),
+      from_tag: z.string().describe("The tag or version currently in use, e.g. 'v3.22.0'"),
+      to_tag: z.string().describe("The tag or version to migrate to, e.g. 'v4.0.0'"),
+    },
+    async ({ dependency_identifier, project_identifier, from_tag, to_tag }) =>
+      queryDependencyWorkflow({
+        dependencyIdentifier: dependency_identifier,
+        projectIdentifier: project_identifier,
+        query: `I am migrating from ${from_tag} to ${to_tag}. Using the changelog, release notes, migration docs and git history in the repository, list the breaking changes between these versions. For each, show the old usage, the new usage, and how to update existing code.`,
+        guidance: [
+          `Also call \`compare_dependency_versions\` with \`from: "${from_tag}"\` and \`to: "${to_tag}"\` for the changed exports and commit log, and check the answer against it.`,
+          `If the project pins a different tag than ${to_tag}, point that out to the user, since answers are based on the checked-out version.`,
+          "Present the result as a checklist of code changes, most disruptive first.",
+        ],
+      }),
+  );
+
+  mcpServer.prompt(
+    "find-usage-examples",
+    "Find real usage examples of a dependency feature in its tests, examples and docs.",
+    {
+      dependency_identifier: dependencyArg(),
+      project_identifier: projectArg(),
+      feature: z.string().describe("The feature or use case to find examples for"),
+    },
+    async ({ dependency_identifier, project_identifier, feature }) =>
+      queryDependencyWorkflow({
+        dependencyIdentifier: dependency_identifier,
+        projectIdentifier: project_identifier,
+        query: `Find usage examples for: ${feature}. Look in the repository's examples, tests and documentation. Quote the most relevant examples with their file paths, and explain what each one demonstrates.`,
+        guidance: [
+          "Adapt the examples to the user's code rather than pasting them verbatim.",
+        ],
+      }),
+  );
+
+  mcpServer.prompt(
+    "troubleshoot-error",
+    "Diagnose an error message or unexpected behaviour coming from a dependency.",
+    {
+      dependency_identifier: dependencyArg(),
+      project_identifier: projectArg(),
+      error: z.string().describe("The error message or a description of the unexpected behaviour"),
+      context: z
+        .string()
+        .optional()
+        .describe("Optional code snippet or context in which the error occurs"),
+    },
+    async ({ dependency_identifier, project_identifier, error, context }) =>
+      queryDependencyWorkflow({
+        dependencyIdentifier: dependency_identifier,
+        projectIdentifier: project_identifier,
+        query: `I am getting this error: ${error}${
+          context ? `\n\nContext:\n${context}` : ""
+        }\n\nFind where this error is raised in the source code, explain what conditions trigger it, and suggest how to fix the calling code.`,
+        guidance: [
+          "Verify the suggested fix against the user's code before applying it.",
+        ],
+      }),
+  );
+}
@@ -0,0 +1,87 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  ErrorCode,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Deliberately no @kinetic-context imports: proxy mode must not need the server env/config.
+function log(...args: unknown[]): void {
+  console.error("[mcp-proxy]", ...args);
+}
+
+/**
+ * Forward MCP messages between stdio and a running kinetic-context HTTP instance.
+ * Messages are passed through unchanged, so progress, cancellation and resource
+ * subscriptions behave exactly as with a direct HTTP connection.
+ */
+export async function runStdioProxy(url: string): Promise<void> {
+  const stdio = new StdioServerTransport();
+  const http = new StreamableHTTPClientTransport(new URL(url));
+
+  // The HTTP transport needs the negotiated protocol version for its headers
+  let initializeRequestId: RequestId | undefined;
+  let closing = false;
+
+  const shutdown = async () => {
+    if (closing) return;
+    closing = true;
+    try {
+      await http.terminateSession();
+    } catch (error) {
+      log("Failed to terminate session:", error instanceof Error ? error.message : String(error));
+    }
+    await http.close();
+    await stdio.close();
+    process.exit(0);
+  };
+
+  stdio.onmessage = (message: JSONRPCMessage) => {
+    if (isJSONRPCRequest(message) && message.method === "initialize") {
+      initializeRequestId = message.id;
+    }
+    http.send(message).catch(async (error: unknown) => {
+      const text = error instanceof Error ? error.message : String(error);
+      log(`Failed to forward message to ${url}:`, text);
+      // Answer requests ourselves so the editor isn't left waiting
+      if (isJSONRPCRequest(message)) {
+        await stdio.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: ErrorCode.InternalError,
+            message: `kinetic-context at ${url} is unreachable: ${text}`,
+          },
+        });
+      }
+    });
+  };
+
+  http.onmessage = (message: JSONRPCMessage) => {
+    if (
+      isJSONRPCResultResponse(message) &&
+      initializeRequestId !== undefined &&
+      message.id === initializeRequestId
+    ) {
+      const version = (message.result as { protocolVersion?: string }).protocolVersion;
+      if (version) {
+        http.setProtocolVersion(version);
+      }
+    }
+    stdio.send(message).catch((error: unknown) => {
+      log("Failed to write message to stdout:", error);
+    });
+  };
+
+  http.onerror = (error) => log("HTTP transport error:", error.message);
+  stdio.onerror = (error) => log("stdio transport error:", error.message);
+  stdio.onclose = () => void shutdown();
+  process.stdin.on("end", () => void shutdown());
+
+  await http.start();
+  await stdio.start();
+  log(`Proxying stdio to ${url}`);
+}
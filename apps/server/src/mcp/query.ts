@@ -0,0 +1,151 @@
+import { env } from "@kinetic-context/env/server";
+import {
+  enqueueJob,
+  ownsJobQueue,
+  logger,
+  queryOpencode,
+  queryOpencodeWithProgress,
+  readProjectConfig,
+  recordPackageAccess,
+  resolveDependencyRepo,
+  type OpencodeProgress,
+} from "@kinetic-context/server-utils";
+
+export interface DependencyQueryOptions {
+  dependencyIdentifier: string;
+  projectIdentifier?: string;
+  query: string;
+  sessionId?: string;
+  timeoutMs?: number;
+  onProgress?: (progress: OpencodeProgress) => void;
+  signal?: AbortSignal;
+}
+
+export type DependencyQueryResult =
+  | { response: string; sessionId: string; tag?: string; tagSpec?: string }
+  | { error: string };
+
+/**
+ * Resolve a dependency (in a worktree of the project's or default tag, with version ranges
+ * resolved to a tag) and ask OpenCode about it.
+ * Returns null if the dependency does not exist.
+ */
+export async function queryDependency(
+  options: DependencyQueryOptions,
+): Promise<{ response: string; sessionId: string; tag?: string; tagSpec?: string } | null> {
+  const { dependencyIdentifier, query, sessionId, timeoutMs, onProgress, signal } = options;
+
+  const resolved = await resolveDependencyRepo(
+    dependencyIdentifier,
+    options.projectIdentifier,
+  );
+  if (!resolved) {
+    return null;
+  }
+  const { packageConfig, repoPath, tag, tagSpec, release } = resolved;
+  await recordPackageAccess(packageConfig);
+
+  const kctxHelper = packageConfig.kctx_helper ?? "";
+  let result: { response: string; sessionId: string };
+  try {
+    result = onProgress
+      ? await queryOpencodeWithProgress(
+          repoPath,
+          query,
+          sessionId,
+          timeoutMs,
+          kctxHelper,
+          onProgress,
+          signal,
+        )
+      : await queryOpencode(repoPath, query, sessionId, timeoutMs, kctxHelper, signal);
+  } finally {
+    release();
+  }
+
+  // The stdio entrypoint doesn't run jobs; the HTTP server generates helpers for its queries
+  if (!sessionId && !kctxHelper.trim() && ownsJobQueue()) {
+    void enqueueJob("kctx_helper", dependencyIdentifier).catch((error) => {
+      logger.error("[mcp]", `Failed to queue kctx_helper for ${dependencyIdentifier}:`, error);
+    });
+  }
+
+  return { ...result, tag, tagSpec };
+}
+
+/**
+ * Ask the same question about several dependencies, at most `concurrency` at a time.
+ * Each query reads its own worktree, so dependencies sharing a clone (e.g. packages of
+ * one monorepo) can run side by side. Failures are reported per dependency.
+ */
+export async function queryDependencies(options: {
+  dependencyIdentifiers: string[];
+  projectIdentifier?: string;
+  query: string;
+  concurrency?: number;
+  timeoutMs?: number;
+  onProgress?: (progress: OpencodeProgress, dependencyIdentifier: string) => void;
+  signal?: AbortSignal;
+}): Promise<Record<string, DependencyQueryResult>> {
+  const results: Record<string, DependencyQueryResult> = {};
+  const errorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+  const runQuery = async (identifier: string) => {
+    if (options.signal?.aborted) {
+      results[identifier] = { error: "Cancelled" };
+      return;
+    }
+    try {
+      const onProgress = options.onProgress;
+      const result = await queryDependency({
+        dependencyIdentifier: identifier,
+        projectIdentifier: options.projectIdentifier,
+        query: options.query,
+        timeoutMs: options.timeoutMs,
+        onProgress: onProgress
+          ? (progress) => onProgress(progress, identifier)
+          : undefined,
+        signal: options.signal,
+      });
+      results[identifier] = result ?? {
+        error: `Dependency "${identifier}" not found`,
+      };
+    } catch (error) {
+      results[identifier] = { error: errorMessage(error) };
+    }
+  };
+
+  // Simple worker pool over the dependencies
+  const queue = [...new Set(options.dependencyIdentifiers)];
+  // Callers may lower the limit but not raise it above MCP_QUERY_CONCURRENCY
+  const limit = Math.max(
+    1,
+    Math.min(options.concurrency ?? env.MCP_QUERY_CONCURRENCY, env.MCP_QUERY_CONCURRENCY),
+  );
+  await Promise.all(
+    Array.from({ length: Math.min(limit, queue.length) }, async () => {
+      for (let identifier = queue.shift(); identifier; identifier = queue.shift()) {
+        await runQuery(identifier);
+      }
+    }),
+  );
+
+  // Keep the caller's order
+  return Object.fromEntries(
+    [...new Set(options.dependencyIdentifiers)].map((identifier) => [
+      identifier,
+      results[identifier]!,
+    ]),
+  );
+}
+
+/**
+ * Dependency identifiers listed in a project's config, or null if the project does not exist.
+ */
+export async function listProjectDependencyIdentifiers(
+  projectIdentifier: string,
+): Promise<string[] | null> {
+  const project = await readProjectConfig(env.PROJECTS_DIR, projectIdentifier);
+  return project ? project.dependencies.map((dependency) => dependency.identifier) : null;
+}
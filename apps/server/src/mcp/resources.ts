@@ -0,0 +1,178 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { env } from "@kinetic-context/env/server";
+import {
+  listPackageConfigs,
+  listProjectConfigs,
+  readPackageConfig,
+  readProjectConfig,
+  onConfigChange,
+  logger,
+  type ConfigChangeEvent,
+} from "@kinetic-context/server-utils";
+
+// `{+identifier}` (reserved expansion) so scoped identifiers like @tanstack/ai keep their slash
+const PACKAGE_URI_TEMPLATE = "kctx://package/{+identifier}";
+const PROJECT_URI_TEMPLATE = "kctx://project/{+identifier}";
+
+function packageUri(identifier: string): string {
+  return `kctx://package/${identifier}`;
+}
+
+function projectUri(identifier: string): string {
+  return `kctx://project/${identifier}`;
+}
+
+function readVariable(value: string | string[] | undefined): string {
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "");
+  return decodeURIComponent(raw);
+}
+
+/**
+ * Registers package and project configs as MCP resources.
+ * Package resources include the kctx_helper repository summary, so agents can pull
+ * it into context without running a full query_dependency OpenCode session.
+ * Subscribed clients receive resources/updated when a config is written or deleted, and
+ * every client receives resources/list_changed when a config is created or deleted.
+ */
+export function registerResources(mcpServer: McpServer): void {
+  mcpServer.resource(
+    "package",
+    new ResourceTemplate(PACKAGE_URI_TEMPLATE, {
+      list: async () => {
+        const clonedPackages = await listPackageConfigs(env.PACKAGES_DIR);
+        const localPackages = await listPackageConfigs(env.LOCAL_PACKAGES_DIR);
+        return {
+          resources: [...clonedPackages, ...localPackages].map((pkg) => ({
+            uri: packageUri(pkg.identifier),
+            name: pkg.display_name,
+            description: `Package config and repository summary for ${pkg.identifier}`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description:
+        "A dependency's package config together with its kctx_helper repository summary (purpose, entry points, conventions).",
+      mimeType: "application/json",
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const identifier = readVariable(variables.identifier);
+      let packageConfig = await readPackageConfig(env.PACKAGES_DIR, identifier, true);
+      if (!packageConfig) {
+        packageConfig = await readPackageConfig(env.LOCAL_PACKAGES_DIR, identifier, true);
+      }
+      if (!packageConfig) {
+        throw new Error(`Dependency "${identifier}" not found`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                identifier: packageConfig.identifier,
+                display_name: packageConfig.display_name,
+                package_manager: packageConfig.package_manager,
+                storage_type: packageConfig.storage_type,
+                default_tag: packageConfig.default_tag,
+                urls: packageConfig.urls,
+                kctx_helper: packageConfig.kctx_helper ?? null,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  mcpServer.resource(
+    "project",
+    new ResourceTemplate(PROJECT_URI_TEMPLATE, {
+      list: async () => {
+        const projects = await listProjectConfigs(env.PROJECTS_DIR);
+        return {
+          resources: projects.map((project) => ({
+            uri: projectUri(project.identifier),
+            name: project.display_name,
+            description: `Project config and dependency tags for ${project.identifier}`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description: "A project's config, including its dependencies and their pinned tags.",
+      mimeType: "application/json",
+    },
+    async (uri, variables): Promise<ReadResourceResult> => {
+      const identifier = readVariable(variables.identifier);
+      const project = await readProjectConfig(env.PROJECTS_DIR, identifier);
+      if (!project) {
+        throw new Error(`Project "${identifier}" not found`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(project, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // Subscriptions are tracked per server instance (one per connected client)
+  const subscriptions = new Set<string>();
+
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = onConfigChange((event: ConfigChangeEvent) => {
+    if (!mcpServer.isConnected()) return;
+
+    // Job results and access bookkeeping rewrite configs often; only a new or removed
+    // config changes the list, other writes only notify the resource's subscribers
+    if (event.action !== "updated") {
+      mcpServer.sendResourceListChanged();
+    }
+
+    const uri =
+      event.kind === "package"
+        ? packageUri(event.identifier)
+        : projectUri(event.identifier);
+    if (subscriptions.has(uri)) {
+      mcpServer.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        logger.error("[mcp]", `Failed to send resource update for ${uri}:`, error);
+      });
+    }
+  });
+
+  const previousOnClose = mcpServer.server.onclose;
+  mcpServer.server.onclose = () => {
+    unsubscribe();
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,165 @@
+import { randomUUID } from "node:crypto";
+import { StreamableHTTPTransport } from "@hono/mcp";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { env } from "@kinetic-context/env/server";
+import { logger } from "@kinetic-context/server-utils";
+import type { Context } from "hono";
+import { createMcpServer } from "./index.js";
+
+export interface McpSessionInfo {
+  sessionId: string;
+  /** Client name/version from the initialize request, e.g. "cursor-vscode" */
+  clientName?: string;
+  clientVersion?: string;
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPTransport;
+  createdAt: Date;
+  lastActivityAt: Date;
+}
+
+// One McpServer + transport per Mcp-Session-Id
+const sessions = new Map<string, McpSession>();
+
+let sweepInterval: ReturnType<typeof setInterval> | null = null;
+
+function jsonRpcError(c: Context, status: 400 | 404, message: string) {
+  return c.json(
+    {
+      jsonrpc: "2.0",
+      error: { code: status === 404 ? -32001 : -32000, message },
+      id: null,
+    },
+    status,
+  );
+}
+
+/**
+ * Close a session's server (and with it the transport and any open streams).
+ */
+async function closeSession(sessionId: string, reason: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+  logger.log("[mcp]", `Closing session ${sessionId} (${reason})`);
+  try {
+    await session.server.close();
+  } catch (error) {
+    logger.error("[mcp]", `Error closing session ${sessionId}:`, error);
+  }
+  sessions.delete(sessionId);
+}
+
+/**
+ * Periodically close sessions that have not sent a request for MCP_SESSION_IDLE_TIMEOUT_MS.
+ * Clients that come back afterwards get a 404 and re-initialize, as the spec requires.
+ */
+function ensureSweeper(): void {
+  if (sweepInterval) {
+    return;
+  }
+  const idleTimeoutMs = env.MCP_SESSION_IDLE_TIMEOUT_MS;
+  sweepInterval = setInterval(
+    () => {
+      const now = Date.now();
+      for (const [sessionId, session] of sessions) {
+        if (now - session.lastActivityAt.getTime() > idleTimeoutMs) {
+          void closeSession(sessionId, "idle");
+        }
+      }
+    },
+    Math.min(idleTimeoutMs, 60_000),
+  );
+  // Don't keep the process alive just for the sweeper
+  sweepInterval.unref();
+}
+
+/**
+ * Create a new server + transport pair for a client sending `initialize`.
+ * The session is registered once the transport has assigned its id.
+ */
+async function createSession(): Promise<StreamableHTTPTransport> {
+  const server = createMcpServer();
+  const createdAt = new Date();
+  const transport = new StreamableHTTPTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, {
+        server,
+        transport,
+        createdAt,
+        lastActivityAt: new Date(),
+      });
+      logger.log("[mcp]", `Session ${sessionId} initialized (${sessions.size} active)`);
+    },
+    onsessionclosed: (sessionId) => {
+      logger.log("[mcp]", `Session ${sessionId} terminated by client`);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+  await server.connect(transport);
+  return transport;
+}
+
+/**
+ * Route an /mcp request to the transport of its Mcp-Session-Id,
+ * creating a new session for initialize requests.
+ */
+export async function handleMcpRequest(c: Context): Promise<Response | undefined> {
+  ensureSweeper();
+
+  const sessionId = c.req.header("mcp-session-id");
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return jsonRpcError(c, 404, "Session not found");
+    }
+    session.lastActivityAt = new Date();
+    return session.transport.handleRequest(c);
+  }
+
+  // Only an initialize request may start a session
+  if (c.req.method === "POST") {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return jsonRpcError(c, 400, "Parse error: Invalid JSON");
+    }
+    const messages = Array.isArray(body) ? body : [body];
+    if (messages.some((message) => isInitializeRequest(message))) {
+      const transport = await createSession();
+      return transport.handleRequest(c, body);
+    }
+  }
+
+  return jsonRpcError(c, 400, "Bad Request: No valid session ID provided");
+}
+
+/**
+ * Connected MCP clients, most recently active first.
+ */
+export function listMcpSessions(): McpSessionInfo[] {
+  return [...sessions.entries()]
+    .map(([sessionId, session]) => {
+      const client = session.server.server.getClientVersion();
+      return {
+        sessionId,
+        clientName: client?.name,
+        clientVersion: client?.version,
+        createdAt: session.createdAt.toISOString(),
+        lastActivityAt: session.lastActivityAt.toISOString(),
+      };
+    })
+    .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+}
@@ -0,0 +1,43 @@
+/**
+ * stdio MCP entrypoint for editors that cannot talk to an HTTP MCP server.
+ *
+ * Usage:
+ *   node dist/stdio.js                       serve the tools locally (same env/config as the HTTP server)
+ *   node dist/stdio.js --proxy <url>         forward to a running instance, e.g. http://localhost:7167/mcp
+ *
+ * The proxy URL can also be given with KCTX_PROXY_URL.
+ */
+import { runStdioProxy } from "./mcp/proxy.js";
+
+function parseProxyUrl(args: string[]): string | undefined {
+  const index = args.indexOf("--proxy");
+  if (index !== -1) {
+    const url = args[index + 1];
+    if (!url) {
+      console.error("--proxy requires a URL, e.g. --proxy http://localhost:7167/mcp");
+      process.exit(1);
+    }
+    return url;
+  }
+  return process.env.KCTX_PROXY_URL || undefined;
+}
+
+const proxyUrl = parseProxyUrl(process.argv.slice(2));
+
+if (proxyUrl) {
+  await runStdioProxy(proxyUrl);
+} else {
+  // Imported lazily: loading the env validates it, which proxy mode must not require.
+  // CORS only matters for the HTTP server; don't make stdio users configure it
+  process.env.CORS_ORIGIN ??= "http://localhost:3000";
+
+  const { logger, redirectLogsToStderr } = await import("@kinetic-context/server-utils");
+  redirectLogsToStderr();
+
+  const { StdioServerTransport } = await import("@modelcontextprotocol/sdk/server/stdio.js");
+  const { createMcpServer } = await import("./mcp/index.js");
+
+  const mcpServer = createMcpServer();
+  await mcpServer.connect(new StdioServerTransport());
+  logger.log("[mcp]", "MCP server running on stdio");
+}
@@ -12,7 +12,7 @@ import {
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { ModeToggle } from "@/components/mode-toggle";
-import { FolderKanban, Package, Brain, BookOpen, Settings } from "lucide-react";
+import { FolderKanban, Package, Brain, BookOpen, Settings, ListChecks, HardDrive } from "lucide-react";
 
 const navItems = [
   {
@@ -25,6 +25,16 @@ const navItems = [
     url: "/packages",
     icon: Package,
   },
+  {
+    title: "Jobs",
+    url: "/jobs",
+    icon: ListChecks,
+  },
+  {
+    title: "Storage",
+    url: "/storage",
+    icon: HardDrive,
+  },
   {
     title: "Models",
     url: "/models",
@@ -18,7 +18,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -32,7 +35,7 @@ interface ManagePackagesDialogProps {
     identifier: string;
     display_name: string;
     default_tag: string;
-    storage_type?: "cloned" | "local";
+    storage_type?: "cloned" | "local" | "archive";
     cloneStatus?: string;
     urls?: {
       logo?: string;
@@ -44,7 +47,12 @@ interface ManagePackagesDialogProps {
   }>;
 }
 
-function BranchSelector({
+function formatTagDate(date: string) {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toLocaleDateString();
+}
+
+function VersionSelector({
   packageIdentifier,
   value,
   onChange,
@@ -52,16 +60,20 @@ function BranchSelector({
 }: {
   packageIdentifier: string;
   value: string;
-  onChange: (branch: string) => void;
+  onChange: (version: string) => void;
   disabled?: boolean;
 }) {
-  const { data, isLoading } = useQuery(
+  const { data: branchData, isLoading: branchesLoading } = useQuery(
     orpc.packages.getBranches.queryOptions({ input: { identifier: packageIdentifier } })
   );
-  const branches = data?.branches ?? [];
-  const effectiveValue = value || data?.defaultBranch || "";
+  const { data: tagData, isLoading: tagsLoading } = useQuery(
+    orpc.packages.getTags.queryOptions({ input: { identifier: packageIdentifier } })
+  );
+  const branches = branchData?.branches ?? [];
+  const tags = tagData?.tags ?? [];
+  const effectiveValue = value || branchData?.defaultBranch || "";
 
-  if (isLoading) {
+  if (branchesLoading || tagsLoading) {
     return (
       <div className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-[100px]">
         <Loader2 className="size-3 animate-spin" />
@@ -69,24 +81,49 @@ function BranchSelector({
       </div>
     );
   }
-  if (branches.length === 0) {
+  if (branches.length === 0 && tags.length === 0) {
     return null;
   }
   return (
     <Select
       value={effectiveValue}
-      onValueChange={onChange}
+      onValueChange={(next) => onChange(next ?? "")}
       disabled={disabled}
     >
       <SelectTrigger size="sm" className="h-7 min-w-[100px] max-w-[140px]">
-        <SelectValue placeholder="Branch" />
+        <SelectValue placeholder="Branch or tag" />
       </SelectTrigger>
       <SelectContent>
-        {branches.map((branch) => (
-          <SelectItem key={branch} value={branch}>
-            {branch}
-          </SelectItem>
-        ))}
+        {branches.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Branches</SelectLabel>
+            {branches.map((branch) => (
+              <SelectItem key={`branch:${branch}`} value={branch}>
+                {branch}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {branches.length > 0 && tags.length > 0 && <SelectSeparator />}
+        {tags.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Tags</SelectLabel>
+            {tags.map((tag) => (
+              <SelectItem
+                key={`tag:${tag.name}`}
+                value={tag.name}
+                title={tag.message}
+              >
+                {tag.name}
+                {tag.date && (
+                  <span className="text-muted-foreground">
+                    {formatTagDate(tag.date)}
+                  </span>
+                )}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
       </SelectContent>
     </Select>
   );
@@ -146,6 +183,9 @@ export function ManagePackagesDialog({
         queryClient.invalidateQueries({
           queryKey: orpc.projects.get.key({ input: { identifier: projectIdentifier } }),
         });
+        queryClient.invalidateQueries({
+          queryKey: orpc.projects.driftReport.key({ input: { identifier: projectIdentifier } }),
+        });
       },
       onError: (error: any) => {
         // Error handling is done in the handler
@@ -207,7 +247,7 @@ export function ManagePackagesDialog({
       const toAdd = toAddIdentifiers.map((packageIdentifier) => {
         const pkg = existingPackages.find((p) => p.identifier === packageIdentifier);
         const tag =
-          pkg?.storage_type === "cloned"
+          pkg?.storage_type === "cloned" || pkg?.storage_type === "archive"
             ? selectedTags[packageIdentifier] ?? pkg?.default_tag ?? undefined
             : undefined;
         return {
@@ -342,9 +382,10 @@ export function ManagePackagesDialog({
                   const wasInitiallyChecked = initialChecked.has(pkg.identifier);
                   const isNew = !wasInitiallyChecked && isChecked;
                   const isRemoved = wasInitiallyChecked && !isChecked;
-                  const isCloned = pkg.storage_type === "cloned";
-                  const showBranchSelector =
-                    isCloned && (isChecked || wasInitiallyChecked);
+                  // Clones have branches and tags, archives registry versions
+                  const hasVersions = pkg.storage_type === "cloned" || pkg.storage_type === "archive";
+                  const showVersionSelector =
+                    hasVersions && (isChecked || wasInitiallyChecked);
 
                   return (
                     <div
@@ -383,15 +424,15 @@ export function ManagePackagesDialog({
                           </div>
                         </div>
                       </label>
-                      {showBranchSelector && (
+                      {showVersionSelector && (
                         <div onClick={(e) => e.stopPropagation()}>
-                          <BranchSelector
+                          <VersionSelector
                             packageIdentifier={pkg.identifier}
                             value={selectedTags[pkg.identifier] ?? ""}
-                            onChange={(branch) =>
+                            onChange={(version) =>
                               setSelectedTags((prev) => ({
                                 ...prev,
-                                [pkg.identifier]: branch,
+                                [pkg.identifier]: version,
                               }))
                             }
                             disabled={isApplying}
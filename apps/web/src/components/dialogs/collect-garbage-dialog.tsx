@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { orpc } from "@/utils/orpc";
+import { formatBytes } from "@/utils/bytes";
+
+interface CollectGarbageDialogProps {
+  children: React.ReactElement;
+}
+
+export function CollectGarbageDialog({ children }: CollectGarbageDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
+  // Fresh preview each time the dialog opens
+  const usage = useQuery({ ...orpc.storage.usage.queryOptions(), enabled: open });
+
+  const orphaned = useMemo(
+    () => usage.data?.clones.filter((clone) => clone.orphaned) ?? [],
+    [usage.data],
+  );
+  const selectedBytes = orphaned
+    .filter((clone) => selectedIds.has(clone.id))
+    .reduce((sum, clone) => sum + clone.bytes + clone.worktreeBytes, 0);
+
+  const collectMutation = useMutation(
+    orpc.storage.collectGarbage.mutationOptions({
+      onSuccess: (result) => {
+        queryClient.invalidateQueries({ queryKey: orpc.storage.usage.key() });
+        if (result.removed.length > 0) {
+          toast.success(
+            `Removed ${result.removed.length} clone${result.removed.length === 1 ? "" : "s"}, freed ${formatBytes(result.freedBytes)}`,
+          );
+        }
+        for (const skipped of result.skipped) {
+          toast.warning(`Kept ${skipped.id}: ${skipped.reason}`);
+        }
+        setOpen(false);
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to remove orphaned clones");
+      },
+    })
+  );
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setSelectedIds(new Set());
+    }
+  };
+
+  // Select everything that can be removed whenever the preview loads
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(orphaned.filter((clone) => !clone.busy).map((clone) => clone.id)));
+    }
+  }, [open, orphaned]);
+
+  const toggleClone = (id: string) => {
+    const newSet = new Set(selectedIds);
+    if (newSet.has(id)) {
+      newSet.delete(id);
+    } else {
+      newSet.add(id);
+    }
+    setSelectedIds(newSet);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger render={children} />
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Remove Orphaned Clones</DialogTitle>
+          <DialogDescription>
+            These clones and unpacked archives are not used by any package. Removing them
+            deletes them from disk with their worktrees or unpacked versions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {usage.isLoading ? (
+            <div className="py-8 text-center">
+              <p className="text-muted-foreground">Scanning clones...</p>
+            </div>
+          ) : orphaned.length === 0 ? (
+            <div className="py-8 text-center">
+              <p className="text-muted-foreground">No orphaned clones</p>
+            </div>
+          ) : (
+            orphaned.map((clone) => (
+              <Card key={clone.id}>
+                <CardContent className="p-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`gc-${clone.id}`}
+                      checked={selectedIds.has(clone.id)}
+                      disabled={clone.busy}
+                      onCheckedChange={() => toggleClone(clone.id)}
+                    />
+                    <Label htmlFor={`gc-${clone.id}`} className="flex-1 cursor-pointer text-sm">
+                      <div className="font-mono truncate">{clone.id}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatBytes(clone.bytes + clone.worktreeBytes)}
+                        {clone.worktrees.length > 0 &&
+                          ` · ${clone.worktrees.length} ${clone.kind === "archive" ? "version" : "worktree"}${clone.worktrees.length === 1 ? "" : "s"}`}
+                        {clone.busy && " · a job is running"}
+                      </div>
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={selectedIds.size === 0 || collectMutation.isPending}
+            onClick={() => collectMutation.mutate({ ids: [...selectedIds] })}
+          >
+            <Trash2 className="size-4 mr-2" />
+            {collectMutation.isPending
+              ? "Removing..."
+              : `Remove ${selectedIds.size} (${formatBytes(selectedBytes)})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,10 +30,17 @@ const updatePackageSchema = z.object({
   identifier: z.string().min(1, "Identifier is required"),
   package_manager: z.string(), // Can be empty
   display_name: z.string().min(1, "Display name is required"),
-  storage_type: z.enum(["cloned", "local"]),
+  storage_type: z.enum(["cloned", "local", "archive"]),
   repo_path: z.string().optional(), // Required for local repos
   default_tag_auto: z.boolean(),
   default_tag: z.string().optional(),
+  subpath: z.string().optional(),
+  sparse_checkout: z.boolean(),
+  auto_fetch_interval: z.string().regex(/^\d*$/, "Must be a whole number of minutes"), // "" uses the global default
+  archive_source: z.enum(["npm", "pypi", "crates", "file"]),
+  archive_name: z.string(),
+  archive_path: z.string(),
+  registry_url: z.string().url("Registry URL must be a valid URL").optional().or(z.literal("")),
   git: z.string().url("Git URL must be a valid URL").optional().or(z.literal("")),
   website: z.string().url().optional().or(z.literal("")),
   docs: z.string().url().optional().or(z.literal("")),
@@ -56,6 +63,14 @@ const updatePackageSchema = z.object({
       path: ["repo_path"],
     });
   }
+  // For local archives, the archive path is required
+  if (data.storage_type === "archive" && data.archive_source === "file" && !data.archive_path.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Archive path is required for local archives",
+      path: ["archive_path"],
+    });
+  }
   // For cloned repos, if auto is not selected, default_tag is required
   if (data.storage_type === "cloned" && !data.default_tag_auto && !data.default_tag) {
     ctx.addIssue({
@@ -103,7 +118,7 @@ export function EditPackageDialog({
     })
   );
 
-  const form = useForm<UpdatePackageForm>({
+  const form = useForm({
     defaultValues: {
       identifier: "",
       package_manager: "",
@@ -112,12 +127,19 @@ export function EditPackageDialog({
       repo_path: "",
       default_tag_auto: false,
       default_tag: "main",
+      subpath: "",
+      sparse_checkout: false,
+      auto_fetch_interval: "",
+      archive_source: "npm",
+      archive_name: "",
+      archive_path: "",
+      registry_url: "",
       git: "",
       website: "",
       docs: "",
       git_browser: "",
       logo: "",
-    },
+    } as UpdatePackageForm,
     validators: {
       onChange: updatePackageSchema,
     },
@@ -130,7 +152,25 @@ export function EditPackageDialog({
         repo_path: value.storage_type === "local" ? value.repo_path : undefined,
         default_tag: value.storage_type === "cloned" 
           ? (value.default_tag_auto ? "auto" : value.default_tag || "main")
+          : value.storage_type === "archive"
+            ? value.default_tag?.trim() || "latest"
+            : undefined,
+        archive: value.storage_type === "archive"
+          ? value.archive_source === "file"
+            ? { source: "file", name: value.archive_name.trim() || undefined, path: value.archive_path.trim() }
+            : {
+                source: value.archive_source,
+                name: value.archive_name.trim() || undefined,
+                registry_url: value.registry_url || undefined,
+              }
           : undefined,
+        // An empty subpath removes it
+        subpath: value.subpath?.trim() ?? "",
+        sparse_checkout: value.storage_type === "cloned" && value.sparse_checkout,
+        auto_fetch_interval_minutes:
+          value.storage_type === "cloned" && value.auto_fetch_interval.trim() !== ""
+            ? Number(value.auto_fetch_interval)
+            : null,
         urls: {
           git: value.storage_type === "cloned" ? value.git : undefined,
           website: value.website || undefined,
@@ -155,7 +195,20 @@ export function EditPackageDialog({
       form.setFieldValue("storage_type", storageType);
       form.setFieldValue("repo_path", pkg.repo_path || "");
       form.setFieldValue("default_tag_auto", defaultTagAuto);
-      form.setFieldValue("default_tag", defaultTagAuto ? "" : (pkg.default_tag || "main"));
+      form.setFieldValue(
+        "default_tag",
+        defaultTagAuto ? "" : (pkg.default_tag || (storageType === "archive" ? "" : "main")),
+      );
+      form.setFieldValue("subpath", pkg.subpath || "");
+      form.setFieldValue("sparse_checkout", pkg.sparse_checkout ?? false);
+      form.setFieldValue(
+        "auto_fetch_interval",
+        pkg.auto_fetch_interval_minutes !== undefined ? String(pkg.auto_fetch_interval_minutes) : "",
+      );
+      form.setFieldValue("archive_source", pkg.archive?.source ?? "npm");
+      form.setFieldValue("archive_name", pkg.archive?.name || "");
+      form.setFieldValue("archive_path", pkg.archive?.path || "");
+      form.setFieldValue("registry_url", pkg.archive?.registry_url || "");
       form.setFieldValue("git", pkg.urls?.git || "");
       form.setFieldValue("website", pkg.urls?.website || "");
       form.setFieldValue("docs", pkg.urls?.docs || "");
@@ -294,10 +347,10 @@ export function EditPackageDialog({
                   <Select
                     value={field.state.value}
                     onValueChange={(value) => {
-                      field.handleChange(value as "cloned" | "local");
+                      field.handleChange(value as "cloned" | "local" | "archive");
                       // Reset repo_path when switching types
                       form.setFieldValue("repo_path", "");
-                      if (value === "local") {
+                      if (value === "local" || value === "archive") {
                         form.setFieldValue("git", "");
                         form.setFieldValue("default_tag_auto", false);
                         form.setFieldValue("default_tag", "");
@@ -312,6 +365,7 @@ export function EditPackageDialog({
                     <SelectContent>
                       <SelectItem value="cloned">Clone Repository</SelectItem>
                       <SelectItem value="local">Local Repository</SelectItem>
+                      <SelectItem value="archive">Package Archive (npm, PyPI, crates.io or file)</SelectItem>
                     </SelectContent>
                   </Select>
                   {isInvalid && field.state.meta.errors && (
@@ -351,6 +405,126 @@ export function EditPackageDialog({
                 );
               }}
             </form.Field>
+          ) : form.state.values.storage_type === "archive" ? (
+            <Fragment>
+              <form.Field name="archive_source">
+                {(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor={field.name}>Source *</Label>
+                    <Select
+                      value={field.state.value}
+                      onValueChange={(value) =>
+                        field.handleChange(value as UpdatePackageForm["archive_source"])
+                      }
+                    >
+                      <SelectTrigger id={field.name}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="npm">npm registry</SelectItem>
+                        <SelectItem value="pypi">PyPI</SelectItem>
+                        <SelectItem value="crates">crates.io</SelectItem>
+                        <SelectItem value="file">Local archive file</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </form.Field>
+
+              <form.Subscribe selector={(state) => state.values.archive_source}>
+                {(source) =>
+                  source === "file" ? (
+                    <form.Field name="archive_path">
+                      {(field) => {
+                        const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+                        return (
+                          <div className="space-y-2">
+                            <Label htmlFor={field.name}>Archive Path *</Label>
+                            <Input
+                              id={field.name}
+                              value={field.state.value}
+                              onChange={(e) => field.handleChange(e.target.value)}
+                              onBlur={field.handleBlur}
+                              placeholder="/archives/package-1.2.3.tgz"
+                              aria-invalid={isInvalid}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Absolute path to a .tgz, .tar.gz, .tar or .zip on the server. It is unpacked
+                              again whenever the file changes.
+                            </p>
+                            {isInvalid && field.state.meta.errors && (
+                              <p className="text-xs text-destructive">
+                                {field.state.meta.errors[0]?.message || "Invalid value"}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      }}
+                    </form.Field>
+                  ) : (
+                    <Fragment>
+                      <form.Field name="archive_name">
+                        {(field) => (
+                          <div className="space-y-2">
+                            <Label htmlFor={field.name}>Registry Package Name</Label>
+                            <Input
+                              id={field.name}
+                              value={field.state.value}
+                              onChange={(e) => field.handleChange(e.target.value)}
+                              onBlur={field.handleBlur}
+                              placeholder="Defaults to the identifier"
+                            />
+                          </div>
+                        )}
+                      </form.Field>
+                      <form.Field name="registry_url">
+                        {(field) => {
+                          const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+                          return (
+                            <div className="space-y-2">
+                              <Label htmlFor={field.name}>Registry URL</Label>
+                              <Input
+                                id={field.name}
+                                type="url"
+                                value={field.state.value}
+                                onChange={(e) => field.handleChange(e.target.value)}
+                                onBlur={field.handleBlur}
+                                placeholder="Registry from Settings"
+                                aria-invalid={isInvalid}
+                              />
+                              {isInvalid && field.state.meta.errors && (
+                                <p className="text-xs text-destructive">
+                                  {field.state.meta.errors[0]?.message || "Invalid URL"}
+                                </p>
+                              )}
+                            </div>
+                          );
+                        }}
+                      </form.Field>
+                    </Fragment>
+                  )
+                }
+              </form.Subscribe>
+
+              <form.Field name="default_tag">
+                {(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor={field.name}>Version</Label>
+                    <Input
+                      id={field.name}
+                      value={field.state.value || ""}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      onBlur={field.handleBlur}
+                      placeholder="latest"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      An exact version, a range like ^4.1 or a dist-tag. Each version is unpacked into
+                      its own directory the first time it is queried. For local archives, a label.
+                    </p>
+                  </div>
+                )}
+              </form.Field>
+            </Fragment>
           ) : (
             <Fragment>
               <form.Field name="git">
@@ -432,6 +606,78 @@ export function EditPackageDialog({
             </Fragment>
           )}
 
+          <form.Field name="subpath">
+            {(field) => (
+              <div className="space-y-2">
+                <Label htmlFor={field.name}>Subpath</Label>
+                <Input
+                  id={field.name}
+                  value={field.state.value || ""}
+                  onChange={(e) => field.handleChange(e.target.value)}
+                  onBlur={field.handleBlur}
+                  placeholder="packages/core (optional)"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Directory of the package inside a monorepo. Queries, search and the
+                  kctx_helper summary are limited to it.
+                </p>
+              </div>
+            )}
+          </form.Field>
+
+          {form.state.values.storage_type === "cloned" && form.state.values.subpath?.trim() && (
+            <form.Field name="sparse_checkout">
+              {(field) => (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={field.name}
+                    checked={field.state.value}
+                    onCheckedChange={(checked) => field.handleChange(checked === true)}
+                  />
+                  <Label
+                    htmlFor={field.name}
+                    className="text-sm font-normal cursor-pointer"
+                  >
+                    Sparse checkout (only check out the subpath to save disk space)
+                  </Label>
+                </div>
+              )}
+            </form.Field>
+          )}
+
+          {form.state.values.storage_type === "cloned" && (
+            <form.Field name="auto_fetch_interval">
+              {(field) => {
+                const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+                return (
+                  <div className="space-y-2">
+                    <Label htmlFor={field.name}>Auto-fetch interval (minutes)</Label>
+                    <Input
+                      id={field.name}
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={field.state.value}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      onBlur={field.handleBlur}
+                      placeholder="Global default"
+                      aria-invalid={isInvalid}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      How often to fetch tags and pull the default branch. Leave empty to use
+                      the global default from Settings, or use 0 to never fetch this package.
+                    </p>
+                    {isInvalid && field.state.meta.errors && (
+                      <p className="text-xs text-destructive">
+                        {field.state.meta.errors[0]?.message || "Invalid value"}
+                      </p>
+                    )}
+                  </div>
+                );
+              }}
+            </form.Field>
+          )}
+
           <form.Field name="website">
             {(field) => {
               const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
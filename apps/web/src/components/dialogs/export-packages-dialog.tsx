@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Download, Copy, Check } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Copy, Check, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 
 import {
@@ -29,10 +29,32 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
   const [copied, setCopied] = useState(false);
   const packages = useQuery(orpc.packages.list.queryOptions());
 
-  // Filter out packages with local storage types (they have system-specific paths)
+  // Archive with a git bundle of each clone, for machines that can't reach the repositories
+  const exportBundleMutation = useMutation(
+    orpc.packages.exportBundle.mutationOptions({
+      onSuccess: (file) => {
+        const url = URL.createObjectURL(file);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = file.name;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast.success(`Downloaded ${file.name}`);
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to export packages");
+      },
+    })
+  );
+
+  // Filter out local repos and archive files (they have system-specific paths)
   const exportablePackages = useMemo(() => {
     if (!packages.data) return [];
-    return packages.data.filter((pkg) => pkg.storage_type === "cloned");
+    return packages.data.filter(
+      (pkg) =>
+        pkg.storage_type === "cloned" ||
+        (pkg.storage_type === "archive" && pkg.archive?.source !== "file"),
+    );
   }, [packages.data]);
 
   // Initialize selection when dialog opens
@@ -82,6 +104,14 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
     return JSON.stringify(exportData, null, 2);
   }, [selectedIdentifiers, exportablePackages]);
 
+  // Selected cloned packages whose clone isn't on disk are exported without history
+  const withoutHistory = exportablePackages.filter(
+    (pkg) =>
+      selectedIdentifiers.has(pkg.identifier) &&
+      pkg.storage_type === "cloned" &&
+      (pkg.evicted_at || pkg.cloneStatus !== "completed"),
+  );
+
   const handleCopy = async () => {
     try {
       await navigator.clipboard.writeText(exportJson);
@@ -100,8 +130,9 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
         <DialogHeader>
           <DialogTitle>Export Packages</DialogTitle>
           <DialogDescription>
-            Select packages to export. Only "cloned" packages can be exported (local packages
-            have system-specific paths).
+            Select packages to export. Only "cloned" packages and registry archives can be exported
+            (local packages and archive files have system-specific paths). Download With Git
+            History also bundles each clone, for machines that can't reach the repositories.
           </DialogDescription>
         </DialogHeader>
 
@@ -113,7 +144,7 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
           ) : exportablePackages.length === 0 ? (
             <div className="py-8 text-center">
               <p className="text-muted-foreground">
-                No exportable packages found. Only "cloned" packages can be exported.
+                No exportable packages found. Only "cloned" packages and registry archives can be exported.
               </p>
             </div>
           ) : (
@@ -165,6 +196,13 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
                   className="font-mono text-xs min-h-[200px]"
                 />
               </div>
+
+              {withoutHistory.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Not cloned on this machine, so exported without history:{" "}
+                  {withoutHistory.map((pkg) => pkg.identifier).join(", ")}
+                </p>
+              )}
             </>
           )}
         </div>
@@ -173,6 +211,18 @@ export function ExportPackagesDialog({ children }: ExportPackagesDialogProps) {
           <Button variant="outline" onClick={() => setOpen(false)}>
             Close
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportBundleMutation.mutate({ identifiers: [...selectedIdentifiers] })}
+            disabled={selectedIdentifiers.size === 0 || exportBundleMutation.isPending}
+          >
+            {exportBundleMutation.isPending ? (
+              <Loader2 className="size-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="size-4 mr-2" />
+            )}
+            Download With Git History
+          </Button>
           <Button onClick={handleCopy} disabled={selectedIdentifiers.size === 0}>
             {copied ? (
               <>
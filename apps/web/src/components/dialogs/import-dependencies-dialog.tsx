@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { orpc } from "@/utils/orpc";
+
+interface ImportDependenciesDialogProps {
+  projectIdentifier: string;
+  /** Repository path from scanProjects */
+  path: string;
+  children: React.ReactElement;
+}
+
+export function ImportDependenciesDialog({
+  projectIdentifier,
+  path,
+  children,
+}: ImportDependenciesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
+
+  const detectQuery = useQuery({
+    ...orpc.projects.detectDependencies.queryOptions({
+      input: { projectIdentifier, path },
+    }),
+    enabled: open,
+  });
+
+  // Preselect everything that would change the project
+  useEffect(() => {
+    if (detectQuery.data) {
+      setSelected(
+        new Set(
+          detectQuery.data.proposals
+            .filter((proposal) => proposal.action !== "unchanged")
+            .map((proposal) => proposal.identifier),
+        ),
+      );
+    }
+  }, [detectQuery.data]);
+
+  const updateMutation = useMutation(
+    orpc.projects.updateDependencies.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: orpc.projects.list.key() });
+        queryClient.invalidateQueries({
+          queryKey: orpc.projects.get.key({ input: { identifier: projectIdentifier } }),
+        });
+        queryClient.invalidateQueries({
+          queryKey: orpc.projects.driftReport.key({ input: { identifier: projectIdentifier } }),
+        });
+        toast.success("Dependencies imported");
+        setOpen(false);
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to import dependencies");
+      },
+    }),
+  );
+
+  const toggle = (identifier: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(identifier)) {
+        next.delete(identifier);
+      } else {
+        next.add(identifier);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const chosen = (detectQuery.data?.proposals ?? []).filter(
+      (proposal) => selected.has(proposal.identifier) && proposal.action !== "unchanged",
+    );
+    updateMutation.mutate({
+      projectIdentifier,
+      toAdd: chosen
+        .filter((proposal) => proposal.action === "add")
+        .map(({ identifier, tag }) => ({ identifier, tag })),
+      toUpdate: chosen
+        .filter((proposal) => proposal.action === "update")
+        .map(({ identifier, tag }) => ({ identifier, tag })),
+    });
+  };
+
+  const proposals = detectQuery.data?.proposals ?? [];
+  const unmatched = detectQuery.data?.unmatched ?? [];
+  const changes = proposals.filter(
+    (proposal) => selected.has(proposal.identifier) && proposal.action !== "unchanged",
+  ).length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger render={children} />
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Dependencies</DialogTitle>
+          <DialogDescription>
+            Dependencies found in the project's manifests and lockfiles that match configured
+            packages. Versions are mapped to tags; review them before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {detectQuery.isLoading ? (
+            <div className="py-8 text-center">
+              <Loader2 className="size-8 animate-spin mx-auto mb-4" />
+              <p>Reading manifests...</p>
+            </div>
+          ) : detectQuery.error ? (
+            <p className="text-sm text-destructive">{detectQuery.error.message}</p>
+          ) : proposals.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              No dependencies match a configured package.
+              {detectQuery.data && detectQuery.data.files.length === 0 && " No manifests were found."}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {proposals.map((proposal) => (
+                <div
+                  key={proposal.identifier}
+                  className={`flex items-start gap-3 p-3 border rounded-none ${
+                    proposal.action === "unchanged" ? "opacity-60" : ""
+                  }`}
+                >
+                  <Checkbox
+                    id={`import-${proposal.identifier}`}
+                    checked={selected.has(proposal.identifier)}
+                    disabled={proposal.action === "unchanged"}
+                    onCheckedChange={() => toggle(proposal.identifier)}
+                  />
+                  <Label
+                    htmlFor={`import-${proposal.identifier}`}
+                    className="flex-1 cursor-pointer flex-col items-start gap-1"
+                  >
+                    <span className="text-sm font-medium">
+                      {proposal.identifier}
+                      {proposal.tag && <span className="font-mono"> @ {proposal.tag}</span>}
+                      {proposal.resolvedTag && (
+                        <span className="ml-1 text-xs text-muted-foreground font-mono">
+                          (now {proposal.resolvedTag})
+                        </span>
+                      )}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {proposal.action === "add"
+                          ? "(new)"
+                          : proposal.action === "update"
+                            ? `(was ${proposal.currentTag ?? "default tag"})`
+                            : "(already listed)"}
+                      </span>
+                    </span>
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {proposal.name}
+                      {proposal.version && ` ${proposal.version}`} from {proposal.source}
+                      {proposal.matchedBy === "git_url" && " (matched by git URL)"}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {unmatched.length > 0 && (
+            <details className="text-xs text-muted-foreground">
+              <summary className="cursor-pointer">
+                {unmatched.length} dependencies have no package config
+              </summary>
+              <div className="mt-2 font-mono break-words">
+                {unmatched.map((dependency) => dependency.name).join(", ")}
+              </div>
+            </details>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={changes === 0 || updateMutation.isPending}>
+            {updateMutation.isPending ? (
+              <>
+                <Loader2 className="size-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              <>
+                <Download className="size-4 mr-2" />
+                Import {changes > 0 ? changes : ""} Dependencies
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { Upload, Loader2 } from "lucide-react";
+import { Upload, Loader2, X } from "lucide-react";
 import { toast } from "sonner";
 import { z } from "zod";
 
@@ -14,6 +14,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { orpc, client } from "@/utils/orpc";
@@ -27,8 +28,18 @@ const ImportPackageSchema = z.object({
   identifier: z.string().min(1),
   package_manager: z.string(),
   display_name: z.string().min(1),
-  storage_type: z.enum(["cloned", "local"]),
+  storage_type: z.enum(["cloned", "local", "archive"]),
   default_tag: z.string().optional(),
+  archive: z
+    .object({
+      source: z.enum(["npm", "pypi", "crates", "file"]),
+      name: z.string().optional(),
+      path: z.string().optional(),
+      registry_url: z.string().optional(),
+    })
+    .optional(),
+  subpath: z.string().optional(),
+  sparse_checkout: z.boolean().optional(),
   urls: z.object({
     website: z.string().optional(),
     docs: z.string().optional(),
@@ -43,22 +54,28 @@ type ImportPackage = z.infer<typeof ImportPackageSchema>;
 interface ImportResult {
   imported: number;
   skipped: number;
+  /** Clones recreated from the git bundles of a package archive */
+  restored?: number;
   errors: Array<{ identifier: string; error: string }>;
 }
 
 export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
   const [open, setOpen] = useState(false);
   const [jsonInput, setJsonInput] = useState("");
+  // A .tar from Download With Git History, imported instead of the JSON
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const queryClient = useQueryClient();
 
   const createMutation = useMutation(orpc.packages.create.mutationOptions());
+  const importBundleMutation = useMutation(orpc.packages.importBundle.mutationOptions());
 
   const handleOpenChange = (newOpen: boolean) => {
     setOpen(newOpen);
     if (!newOpen) {
       setJsonInput("");
+      setArchiveFile(null);
       setImportResult(null);
     }
   };
@@ -101,7 +118,46 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
     }
   };
 
+  const finishImport = (result: ImportResult) => {
+    setImportResult(result);
+
+    // Refresh package list
+    queryClient.invalidateQueries({ queryKey: orpc.packages.list.key() });
+    queryClient.invalidateQueries({ queryKey: orpc.stats.get.key() });
+
+    // Show summary toast
+    if (result.imported > 0) {
+      toast.success(`Imported ${result.imported} package(s)`);
+    }
+    if (result.restored) {
+      toast.success(`Restored ${result.restored} clone(s) from git bundles`);
+    }
+    if (result.skipped > 0) {
+      toast.info(`Skipped ${result.skipped} existing package(s)`);
+    }
+    if (result.errors.length > 0) {
+      toast.error(`Failed to import ${result.errors.length} package(s)`);
+    }
+  };
+
+  const handleImportArchive = async (file: File) => {
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      finishImport(await importBundleMutation.mutateAsync({ file }));
+    } catch (error: any) {
+      toast.error(error.message || "Failed to import package archive");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleImport = async () => {
+    if (archiveFile) {
+      await handleImportArchive(archiveFile);
+      return;
+    }
+
     const packages = validateJson(jsonInput);
     if (!packages) {
       return;
@@ -135,6 +191,17 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
           continue;
         }
 
+        // Archive files have system-specific paths too; registry archives only need a source
+        if (pkg.storage_type === "archive" && (!pkg.archive || pkg.archive.source === "file")) {
+          result.errors.push({
+            identifier: pkg.identifier,
+            error: pkg.archive
+              ? "Cannot import archive files (system-specific paths required)"
+              : "Archive source is required for archive packages",
+          });
+          continue;
+        }
+
         // For cloned packages, ensure git URL is provided
         if (pkg.storage_type === "cloned" && !pkg.urls.git) {
           result.errors.push({
@@ -151,6 +218,9 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
           display_name: pkg.display_name,
           storage_type: pkg.storage_type,
           default_tag: pkg.default_tag,
+          archive: pkg.archive,
+          subpath: pkg.subpath,
+          sparse_checkout: pkg.sparse_checkout,
           urls: pkg.urls,
         });
 
@@ -164,22 +234,7 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
     }
 
     setIsImporting(false);
-    setImportResult(result);
-
-    // Refresh package list
-    queryClient.invalidateQueries({ queryKey: orpc.packages.list.key() });
-    queryClient.invalidateQueries({ queryKey: orpc.stats.get.key() });
-
-    // Show summary toast
-    if (result.imported > 0) {
-      toast.success(`Imported ${result.imported} package(s)`);
-    }
-    if (result.skipped > 0) {
-      toast.info(`Skipped ${result.skipped} existing package(s)`);
-    }
-    if (result.errors.length > 0) {
-      toast.error(`Failed to import ${result.errors.length} package(s)`);
-    }
+    finishImport(result);
   };
 
   return (
@@ -189,21 +244,49 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
         <DialogHeader>
           <DialogTitle>Import Packages</DialogTitle>
           <DialogDescription>
-            Paste JSON array of package configurations to import. Existing packages will be skipped.
+            Paste JSON array of package configurations to import, or choose a package archive
+            downloaded with git history to restore the clones too. Existing packages will be skipped.
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex-1 overflow-y-auto space-y-4">
           <div className="space-y-2">
-            <Label className="text-sm font-medium">Package JSON</Label>
-            <Textarea
-              value={jsonInput}
-              onChange={(e) => setJsonInput(e.target.value)}
-              placeholder='[\n  {\n    "identifier": "@hookform/resolvers",\n    "package_manager": "npm",\n    "display_name": "React Hook Form - Resolvers",\n    "storage_type": "cloned",\n    "default_tag": "master",\n    "urls": {\n      "git": "git@github.com:react-hook-form/resolvers.git"\n    }\n  }\n]'
-              className="font-mono text-xs min-h-[300px]"
-            />
+            <Label htmlFor="package-archive" className="text-sm font-medium">
+              Package Archive (.tar)
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                key={archiveFile ? "selected" : "empty"}
+                id="package-archive"
+                type="file"
+                accept=".tar,application/x-tar"
+                onChange={(e) => setArchiveFile(e.target.files?.[0] ?? null)}
+              />
+              {archiveFile && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setArchiveFile(null)}
+                  title="Use JSON instead"
+                >
+                  <X className="size-4" />
+                </Button>
+              )}
+            </div>
           </div>
 
+          {!archiveFile && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Package JSON</Label>
+              <Textarea
+                value={jsonInput}
+                onChange={(e) => setJsonInput(e.target.value)}
+                placeholder='[\n  {\n    "identifier": "@hookform/resolvers",\n    "package_manager": "npm",\n    "display_name": "React Hook Form - Resolvers",\n    "storage_type": "cloned",\n    "default_tag": "master",\n    "urls": {\n      "git": "git@github.com:react-hook-form/resolvers.git"\n    }\n  }\n]'
+                className="font-mono text-xs min-h-[300px]"
+              />
+            </div>
+          )}
+
           {importResult && (
             <div className="space-y-2 p-4 border rounded-lg">
               <div className="font-medium text-sm">Import Summary</div>
@@ -211,6 +294,11 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
                 <div className="text-green-600 dark:text-green-400">
                   ✓ Imported: {importResult.imported}
                 </div>
+                {importResult.restored !== undefined && (
+                  <div className="text-green-600 dark:text-green-400">
+                    ✓ Restored clones: {importResult.restored}
+                  </div>
+                )}
                 <div className="text-yellow-600 dark:text-yellow-400">
                   ⊘ Skipped: {importResult.skipped}
                 </div>
@@ -238,7 +326,7 @@ export function ImportPackagesDialog({ children }: ImportPackagesDialogProps) {
           <Button variant="outline" onClick={() => setOpen(false)}>
             Close
           </Button>
-          <Button onClick={handleImport} disabled={!jsonInput.trim() || isImporting}>
+          <Button onClick={handleImport} disabled={(!jsonInput.trim() && !archiveFile) || isImporting}>
             {isImporting ? (
               <>
                 <Loader2 className="size-4 mr-2 animate-spin" />
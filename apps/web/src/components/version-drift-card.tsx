@@ -0,0 +1,167 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import { orpc } from "@/utils/orpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const STATUS_LABELS = {
+  in_sync: { label: "In sync", className: "text-green-600 dark:text-green-400" },
+  drift: { label: "Drift", className: "text-red-600 dark:text-red-400" },
+  not_installed: { label: "Not installed", className: "text-yellow-600 dark:text-yellow-400" },
+  unknown: { label: "Unknown", className: "text-muted-foreground" },
+} as const;
+
+interface VersionDriftCardProps {
+  projectIdentifier: string;
+}
+
+export function VersionDriftCard({ projectIdentifier }: VersionDriftCardProps) {
+  const queryClient = useQueryClient();
+  const report = useQuery(
+    orpc.projects.driftReport.queryOptions({ input: { identifier: projectIdentifier } }),
+  );
+
+  const updateMutation = useMutation(
+    orpc.projects.updateDependencies.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.projects.get.key({ input: { identifier: projectIdentifier } }),
+        });
+        queryClient.invalidateQueries({
+          queryKey: orpc.projects.driftReport.key({ input: { identifier: projectIdentifier } }),
+        });
+        toast.success("Tag updated");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to update tag");
+      },
+    }),
+  );
+
+  const applyInstalledTag = (identifier: string, tag: string) => {
+    updateMutation.mutate({
+      projectIdentifier,
+      toUpdate: [{ identifier, tag }],
+    });
+  };
+
+  const driftCount =
+    report.data?.dependencies.filter((dependency) => dependency.status === "drift").length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Version Drift</CardTitle>
+            <CardDescription>
+              Installed versions from the project's lockfiles compared with the configured tags
+              {report.data?.checkoutPath && (
+                <span className="block font-mono text-xs mt-1 truncate" title={report.data.checkoutPath}>
+                  {report.data.checkoutPath}
+                </span>
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => report.refetch()}
+            disabled={report.isFetching}
+          >
+            {report.isFetching ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="size-4" />
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {report.isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : report.error ? (
+          <p className="text-sm text-destructive">{report.error.message}</p>
+        ) : !report.data || report.data.dependencies.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No dependencies to compare.</p>
+        ) : (
+          <div className="space-y-3">
+            {!report.data.checkoutPath && (
+              <p className="text-sm text-muted-foreground">
+                No checkout of this project was found in the projects directory, so installed
+                versions are unknown.
+              </p>
+            )}
+            {driftCount > 0 && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {driftCount} {driftCount === 1 ? "dependency is" : "dependencies are"} answered
+                for a different version than the project uses.
+              </p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-4 font-medium">Dependency</th>
+                    <th className="py-2 pr-4 font-medium">Installed</th>
+                    <th className="py-2 pr-4 font-medium">Configured</th>
+                    <th className="py-2 pr-4 font-medium">Latest</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.data.dependencies.map((dependency) => {
+                    const status = STATUS_LABELS[dependency.status];
+                    return (
+                      <tr key={dependency.identifier} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium">{dependency.identifier}</td>
+                        <td className="py-2 pr-4 font-mono text-xs" title={dependency.installedSource}>
+                          {dependency.installedVersion ?? "—"}
+                          {dependency.installedVersion && !dependency.installedLocked && (
+                            <span className="text-muted-foreground"> (declared)</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {dependency.configuredTag ?? "—"}
+                          {dependency.resolvedTag && dependency.resolvedTag !== dependency.configuredTag && (
+                            <span className="text-muted-foreground"> → {dependency.resolvedTag}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {dependency.latestTag ?? "—"}
+                          {dependency.behindLatest && (
+                            <span className="text-yellow-600 dark:text-yellow-400"> (newer)</span>
+                          )}
+                        </td>
+                        <td className={`py-2 pr-4 text-xs ${status.className}`} title={dependency.note}>
+                          {status.label}
+                        </td>
+                        <td className="py-2 text-right">
+                          {dependency.status === "drift" && dependency.installedTag && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => applyInstalledTag(dependency.identifier, dependency.installedTag!)}
+                              disabled={updateMutation.isPending}
+                              title={`Set the tag to ${dependency.installedTag}`}
+                            >
+                              Use installed
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
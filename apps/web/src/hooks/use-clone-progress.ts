@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { orpc, orpcClient } from "@/utils/orpc";
+
+// Wait before re-subscribing when the stream drops (e.g. the server restarted)
+const RECONNECT_DELAY_MS = 5000;
+
+export type CloneProgressEvent =
+  Awaited<ReturnType<typeof orpcClient.packages.watchClones>> extends AsyncIterable<infer T>
+    ? T
+    : never;
+
+/**
+ * Subscribe to live clone progress, keyed by package identifier. The package list is
+ * refetched when a clone finishes so its status and default tag are current.
+ */
+export function useCloneProgress() {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<Record<string, CloneProgressEvent>>({});
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const subscribe = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const events = await orpcClient.packages.watchClones(undefined, {
+            signal: controller.signal,
+          });
+          for await (const event of events) {
+            setProgress((previous) => ({ ...previous, [event.identifier]: event }));
+            if (event.status === "completed" || event.status === "error") {
+              queryClient.invalidateQueries({ queryKey: orpc.packages.list.key() });
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+          console.error("Clone progress stream failed:", error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    };
+
+    void subscribe();
+    return () => controller.abort();
+  }, [queryClient]);
+
+  return progress;
+}
@@ -9,15 +9,22 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as StorageRouteImport } from './routes/storage'
 import { Route as SettingsRouteImport } from './routes/settings'
 import { Route as ProjectsRouteImport } from './routes/projects'
 import { Route as PackagesRouteImport } from './routes/packages'
 import { Route as ModelsRouteImport } from './routes/models'
+import { Route as JobsRouteImport } from './routes/jobs'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as ProjectIdentifierRouteImport } from './routes/project.$identifier'
 import { Route as PackageIdentifierRouteImport } from './routes/package.$identifier'
 import { Route as PackageIdentifierChatRouteImport } from './routes/package.$identifier.chat'
 
+const StorageRoute = StorageRouteImport.update({
+  id: '/storage',
+  path: '/storage',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SettingsRoute = SettingsRouteImport.update({
   id: '/settings',
   path: '/settings',
@@ -38,6 +45,11 @@ const ModelsRoute = ModelsRouteImport.update({
   path: '/models',
   getParentRoute: () => rootRouteImport,
 } as any)
+const JobsRoute = JobsRouteImport.update({
+  id: '/jobs',
+  path: '/jobs',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -61,20 +73,24 @@ const PackageIdentifierChatRoute = PackageIdentifierChatRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/jobs': typeof JobsRoute
   '/models': typeof ModelsRoute
   '/packages': typeof PackagesRoute
   '/projects': typeof ProjectsRoute
   '/settings': typeof SettingsRoute
+  '/storage': typeof StorageRoute
   '/package/$identifier': typeof PackageIdentifierRouteWithChildren
   '/project/$identifier': typeof ProjectIdentifierRoute
   '/package/$identifier/chat': typeof PackageIdentifierChatRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/jobs': typeof JobsRoute
   '/models': typeof ModelsRoute
   '/packages': typeof PackagesRoute
   '/projects': typeof ProjectsRoute
   '/settings': typeof SettingsRoute
+  '/storage': typeof StorageRoute
   '/package/$identifier': typeof PackageIdentifierRouteWithChildren
   '/project/$identifier': typeof ProjectIdentifierRoute
   '/package/$identifier/chat': typeof PackageIdentifierChatRoute
@@ -82,10 +98,12 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/jobs': typeof JobsRoute
   '/models': typeof ModelsRoute
   '/packages': typeof PackagesRoute
   '/projects': typeof ProjectsRoute
   '/settings': typeof SettingsRoute
+  '/storage': typeof StorageRoute
   '/package/$identifier': typeof PackageIdentifierRouteWithChildren
   '/project/$identifier': typeof ProjectIdentifierRoute
   '/package/$identifier/chat': typeof PackageIdentifierChatRoute
@@ -94,30 +112,36 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/jobs'
     | '/models'
     | '/packages'
     | '/projects'
     | '/settings'
+    | '/storage'
     | '/package/$identifier'
     | '/project/$identifier'
     | '/package/$identifier/chat'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/jobs'
     | '/models'
     | '/packages'
     | '/projects'
     | '/settings'
+    | '/storage'
     | '/package/$identifier'
     | '/project/$identifier'
     | '/package/$identifier/chat'
   id:
     | '__root__'
     | '/'
+    | '/jobs'
     | '/models'
     | '/packages'
     | '/projects'
     | '/settings'
+    | '/storage'
     | '/package/$identifier'
     | '/project/$identifier'
     | '/package/$identifier/chat'
@@ -125,16 +149,25 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  JobsRoute: typeof JobsRoute
   ModelsRoute: typeof ModelsRoute
   PackagesRoute: typeof PackagesRoute
   ProjectsRoute: typeof ProjectsRoute
   SettingsRoute: typeof SettingsRoute
+  StorageRoute: typeof StorageRoute
   PackageIdentifierRoute: typeof PackageIdentifierRouteWithChildren
   ProjectIdentifierRoute: typeof ProjectIdentifierRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/storage': {
+      id: '/storage'
+      path: '/storage'
+      fullPath: '/storage'
+      preLoaderRoute: typeof StorageRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/settings': {
       id: '/settings'
       path: '/settings'
@@ -163,6 +196,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ModelsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/jobs': {
+      id: '/jobs'
+      path: '/jobs'
+      fullPath: '/jobs'
+      preLoaderRoute: typeof JobsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -207,10 +247,12 @@ const PackageIdentifierRouteWithChildren =
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  JobsRoute: JobsRoute,
   ModelsRoute: ModelsRoute,
   PackagesRoute: PackagesRoute,
   ProjectsRoute: ProjectsRoute,
   SettingsRoute: SettingsRoute,
+  StorageRoute: StorageRoute,
   PackageIdentifierRoute: PackageIdentifierRouteWithChildren,
   ProjectIdentifierRoute: ProjectIdentifierRoute,
 }
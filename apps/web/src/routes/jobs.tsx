@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { orpc } from "@/utils/orpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Loader2, RotateCcw, X } from "lucide-react";
+import { toast } from "sonner";
+
+export const Route = createFileRoute("/jobs")({
+  component: JobsComponent,
+});
+
+type StateFilter = "all" | "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+const stateStyles: Record<string, string> = {
+  queued: "bg-muted text-muted-foreground",
+  running: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  succeeded: "bg-green-500/10 text-green-600 dark:text-green-400",
+  failed: "bg-destructive/10 text-destructive",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+function formatTime(value?: string) {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+function JobsComponent() {
+  const [stateFilter, setStateFilter] = useState<StateFilter>("all");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const jobs = useQuery({
+    ...orpc.jobs.list.queryOptions({
+      input: stateFilter === "all" ? {} : { state: stateFilter },
+    }),
+    // Poll while anything is queued or running
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.state === "queued" || job.state === "running")
+        ? 2000
+        : false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: orpc.jobs.list.key() });
+  };
+
+  const cancelMutation = useMutation(
+    orpc.jobs.cancel.mutationOptions({
+      onSuccess: () => {
+        invalidate();
+        toast.success("Job cancelled");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to cancel job");
+      },
+    })
+  );
+
+  const retryMutation = useMutation(
+    orpc.jobs.retry.mutationOptions({
+      onSuccess: () => {
+        invalidate();
+        toast.success("Job queued again");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to retry job");
+      },
+    })
+  );
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 py-6 sm:py-8">
+      <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Jobs</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Background clones, pulls and kctx_helper generation
+          </p>
+        </div>
+        <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as StateFilter)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="queued">Queued</SelectItem>
+            <SelectItem value="running">Running</SelectItem>
+            <SelectItem value="succeeded">Succeeded</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {jobs.isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : jobs.data && jobs.data.length > 0 ? (
+        <div className="space-y-2">
+          {jobs.data.map((job) => {
+            const isOpen = expanded === job.id;
+            const isActive = job.state === "queued" || job.state === "running";
+            return (
+              <Card key={job.id}>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      onClick={() => setExpanded(isOpen ? null : job.id)}
+                      title={isOpen ? "Hide logs" : "Show logs"}
+                    >
+                      {isOpen ? <ChevronDown className="size-4" /> : <ChevronRight className="size-4" />}
+                    </Button>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded font-medium shrink-0 ${stateStyles[job.state] ?? ""}`}
+                    >
+                      {job.state === "running" && <Loader2 className="size-3 mr-1 inline animate-spin" />}
+                      {job.state}
+                    </span>
+                    <span className="font-mono text-sm shrink-0">{job.type}</span>
+                    <Link
+                      to="/package/$identifier"
+                      params={{ identifier: job.identifier }}
+                      className="text-sm hover:underline truncate"
+                    >
+                      {job.identifier}
+                    </Link>
+                    <div className="flex-1 min-w-0 text-xs text-muted-foreground truncate">
+                      {job.state === "running" && job.progress
+                        ? `${job.progress.stage}${job.progress.percent !== undefined ? ` ${job.progress.percent}%` : ""}`
+                        : job.state === "queued" && job.notBefore
+                          ? `Retry at ${formatTime(job.notBefore)}`
+                          : job.error}
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0" title="Attempts">
+                      {job.attempts}/{job.maxAttempts}
+                    </span>
+                    {isActive ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => cancelMutation.mutate({ id: job.id })}
+                      >
+                        <X className="size-4 mr-1" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      job.state !== "succeeded" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={retryMutation.isPending}
+                          onClick={() => retryMutation.mutate({ id: job.id })}
+                        >
+                          <RotateCcw className="size-4 mr-1" />
+                          Retry
+                        </Button>
+                      )
+                    )}
+                  </div>
+                  {job.state === "running" && job.progress?.percent !== undefined && (
+                    <div className="mt-3 h-1 w-full rounded bg-muted overflow-hidden">
+                      <div className="h-full bg-primary transition-all" style={{ width: `${job.progress.percent}%` }} />
+                    </div>
+                  )}
+                  {isOpen && (
+                    <div className="mt-3 space-y-2">
+                      <div className="text-xs text-muted-foreground">
+                        Created {formatTime(job.createdAt)} · Started {formatTime(job.startedAt)} · Finished{" "}
+                        {formatTime(job.finishedAt)}
+                      </div>
+                      <pre className="text-xs bg-muted rounded p-3 max-h-80 overflow-auto whitespace-pre-wrap">
+                        {job.logs.length > 0
+                          ? job.logs
+                              .map((entry) => `${new Date(entry.at).toLocaleTimeString()} ${entry.level === "error" ? "ERROR " : ""}${entry.message}`)
+                              .join("\n")
+                          : "No log output yet"}
+                      </pre>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No jobs</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, Link, Outlet, useRouterState } from "@tanstack/react-router";
 
 import { orpc } from "@/utils/orpc";
+import { formatRelativeTime } from "@/utils/time";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
@@ -32,10 +33,12 @@ function PackageDetailComponent() {
       onSuccess: () => {
         queryClient.invalidateQueries({ queryKey: orpc.packages.get.key({ input: { identifier } }) });
         queryClient.invalidateQueries({ queryKey: orpc.packages.list.key() });
-        toast.success("kctx_helper regenerated");
+        toast.success("kctx_helper regeneration queued", {
+          description: "Follow its progress on the Jobs page",
+        });
       },
       onError: () => {
-        toast.error("Failed to regenerate kctx_helper");
+        toast.error("Failed to queue kctx_helper regeneration");
       },
     })
   );
@@ -115,7 +118,7 @@ function PackageDetailComponent() {
                   variant="outline"
                   disabled={remakeKctxHelperMutation.isPending}
                   onClick={() => remakeKctxHelperMutation.mutate({ identifier: pkg.data.identifier })}
-                  title="Remake kctx_helper (may take a few minutes)"
+                  title="Queue a kctx_helper job (may take a few minutes)"
                 >
                   {remakeKctxHelperMutation.isPending ? (
                     <Loader2 className="size-4 mr-2 animate-spin" />
@@ -159,24 +162,98 @@ function PackageDetailComponent() {
                         ? "Cloned Repository" 
                         : pkg.data.storage_type === "local" 
                         ? "Local Repository" 
+                        : pkg.data.storage_type === "archive"
+                        ? "Package Archive"
                         : "Existing Repository"}
                     </span>
                   </div>
                 </div>
+                {pkg.data.archive && (
+                  <div>
+                    <div className="text-sm font-medium mb-1">Archive Source</div>
+                    <div className="text-sm text-muted-foreground break-all">
+                      {pkg.data.archive.source === "file" ? (
+                        <span className="font-mono">{pkg.data.archive.path}</span>
+                      ) : (
+                        <>
+                          {pkg.data.archive.name || pkg.data.identifier} from{" "}
+                          {pkg.data.archive.registry_url || `the ${pkg.data.archive.source} registry`}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div>
-                  <div className="text-sm font-medium mb-1">Repository Path</div>
+                  <div className="text-sm font-medium mb-1">
+                    {pkg.data.storage_type === "archive" ? "Unpacked Versions" : "Repository Path"}
+                  </div>
                   <div className="text-sm text-muted-foreground font-mono break-all">{pkg.data.repo_path}</div>
                 </div>
+                {pkg.data.subpath && (
+                  <div>
+                    <div className="text-sm font-medium mb-1">Subpath</div>
+                    <div className="text-sm text-muted-foreground font-mono break-all">
+                      {pkg.data.subpath}
+                      {pkg.data.sparse_checkout && " (sparse checkout)"}
+                    </div>
+                  </div>
+                )}
                 <div>
                   <div className="text-sm font-medium mb-1">Package Manager</div>
                   <div className="text-sm text-muted-foreground">{pkg.data.package_manager || "N/A"}</div>
                 </div>
-                {pkg.data.storage_type === "cloned" && (
+                {pkg.data.storage_type !== "local" && (
                   <div>
-                    <div className="text-sm font-medium mb-1">Default Tag</div>
+                    <div className="text-sm font-medium mb-1">
+                      {pkg.data.storage_type === "archive" ? "Version" : "Default Tag"}
+                    </div>
                     <div className="text-sm text-muted-foreground">{pkg.data.default_tag || "N/A"}</div>
                   </div>
                 )}
+                {pkg.data.storage_type !== "local" && (
+                  <div>
+                    <div className="text-sm font-medium mb-1">Last Updated</div>
+                    <div className="text-sm text-muted-foreground">
+                      {pkg.data.last_updated ? (
+                        <span title={new Date(pkg.data.last_updated.at).toLocaleString()}>
+                          {formatRelativeTime(pkg.data.last_updated.at)}
+                          {!pkg.data.last_updated.success && (
+                            <span className="text-destructive">
+                              {" "}(failed{pkg.data.last_updated.error ? `: ${pkg.data.last_updated.error}` : ""})
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        "Never"
+                      )}
+                      {pkg.data.auto_fetch_interval_minutes !== undefined && (
+                        <span>
+                          {" "}·{" "}
+                          {pkg.data.auto_fetch_interval_minutes === 0
+                            ? "auto-fetch off"
+                            : `auto-fetch every ${pkg.data.auto_fetch_interval_minutes} min`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <div className="text-sm font-medium mb-1">Last Queried</div>
+                  <div className="text-sm text-muted-foreground">
+                    {pkg.data.last_accessed_at ? (
+                      <span title={new Date(pkg.data.last_accessed_at).toLocaleString()}>
+                        {formatRelativeTime(pkg.data.last_accessed_at)}
+                      </span>
+                    ) : (
+                      "Never"
+                    )}
+                    {pkg.data.storage_type === "cloned" && pkg.data.evicted_at && (
+                      <span>
+                        {" "}· clone evicted {formatRelativeTime(pkg.data.evicted_at)}; the next query clones it again
+                      </span>
+                    )}
+                  </div>
+                </div>
                 {pkg.data.cloneStatus && pkg.data.cloneStatus !== "completed" && (
                   <div>
                     <div className="text-sm font-medium mb-1">Clone Status</div>
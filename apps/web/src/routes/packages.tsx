@@ -3,6 +3,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
 
 import { orpc } from "@/utils/orpc";
+import { useCloneProgress, type CloneProgressEvent } from "@/hooks/use-clone-progress";
+import { formatRelativeTime } from "@/utils/time";
+import { formatBytes } from "@/utils/bytes";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -47,6 +50,47 @@ export const Route = createFileRoute("/packages")({
 
 type FilterType = "all" | "projects" | "packages";
 
+function CloneProgressDetails({ event }: { event: CloneProgressEvent }) {
+  const { progress } = event;
+  if (event.status === "pending") {
+    return <div className="text-xs">Waiting to clone...</div>;
+  }
+  if (event.status === "error") {
+    return (
+      <div className="text-xs text-destructive truncate" title={event.error}>
+        Clone failed{event.error ? `: ${event.error}` : ""}
+      </div>
+    );
+  }
+  if (event.status !== "cloning") {
+    return null;
+  }
+  if (!progress) {
+    return <div className="text-xs">Starting clone...</div>;
+  }
+  const details = [
+    progress.total !== undefined ? `${progress.processed ?? 0}/${progress.total}` : null,
+    progress.bytes !== undefined ? formatBytes(progress.bytes) : null,
+    progress.bytesPerSecond !== undefined ? `${formatBytes(progress.bytesPerSecond)}/s` : null,
+  ].filter(Boolean);
+  return (
+    <div className="space-y-1">
+      <div className="text-xs flex justify-between gap-2">
+        <span className="capitalize">
+          {progress.stage}
+          {progress.percent !== undefined && ` ${progress.percent}%`}
+        </span>
+        <span className="truncate">{details.join(" · ")}</span>
+      </div>
+      {progress.percent !== undefined && (
+        <div className="h-1 w-full rounded bg-muted overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${progress.percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 type ScanRepo = {
   path: string;
   relativePath: string;
@@ -61,6 +105,7 @@ function PackagesComponent() {
   const [filter, setFilter] = useState<FilterType>("all");
   const packages = useQuery(orpc.packages.list.queryOptions());
   const queryClient = useQueryClient();
+  const cloneProgress = useCloneProgress();
 
   const scanQuery = useQuery(orpc.packages.scanProjects.queryOptions());
   
@@ -106,8 +151,8 @@ function PackagesComponent() {
       return pkg.storage_type === "local";
     }
     if (filter === "packages") {
-      // Packages are cloned repositories
-      return pkg.storage_type === "cloned";
+      // Packages are cloned repositories and archives
+      return pkg.storage_type !== "local";
     }
     return true;
   }) || [];
@@ -294,66 +339,101 @@ function PackagesComponent() {
         </div>
       ) : filteredPackages.length > 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredPackages.map((pkg) => (
-            <Link
-              key={pkg.identifier}
-              to="/package/$identifier"
-              params={{ identifier: pkg.identifier }}
-            >
-              <Card className="hover:bg-accent transition-colors cursor-pointer h-full">
-                <CardHeader>
-                  <CardTitle className="text-base sm:text-lg flex items-center gap-2">
-                    {pkg.urls?.logo && (
-                      <img
-                        src={pkg.urls.logo}
-                        alt={`${pkg.display_name} logo`}
-                        className="size-6 object-contain"
-                      />
-                    )}
-                    {pkg.display_name}
-                    {pkg.cloneStatus === "cloning" && (
-                      <Loader2 className="size-4 animate-spin text-muted-foreground" />
-                    )}
-                  </CardTitle>
-                  <CardDescription className="text-xs sm:text-sm flex items-center gap-1.5">
-                    <span>{pkg.identifier}</span>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-5 w-5 -mr-1"
-                      onClick={(e) => handleCopyIdentifier(e, pkg.identifier)}
-                      title="Copy package ID"
-                    >
-                      <Copy className="size-3" />
-                    </Button>
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-xs sm:text-sm text-muted-foreground space-y-1">
-                    <div className="flex items-center gap-2">
-                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary">
-                        {pkg.storage_type === "cloned" ? "Cloned" : "Local"}
-                      </span>
-                    </div>
-                    <div>Manager: {pkg.package_manager || "N/A"}</div>
-                    {pkg.storage_type === "cloned" && (
-                      <div>Tag: {pkg.default_tag || "N/A"}</div>
-                    )}
-                    {pkg.storage_type === "local" && (
-                      <div className="text-xs font-mono truncate" title={pkg.repo_path}>
-                        Path: {pkg.repo_path}
-                      </div>
-                    )}
-                    {pkg.cloneStatus && pkg.cloneStatus !== "completed" && (
-                      <div className="text-xs">
-                        Status: {pkg.cloneStatus}
+          {filteredPackages.map((pkg) => {
+            const liveClone = cloneProgress[pkg.identifier];
+            const cloneStatus = liveClone?.status ?? pkg.cloneStatus;
+            return (
+              <Link
+                key={pkg.identifier}
+                to="/package/$identifier"
+                params={{ identifier: pkg.identifier }}
+              >
+                <Card className="hover:bg-accent transition-colors cursor-pointer h-full">
+                  <CardHeader>
+                    <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                      {pkg.urls?.logo && (
+                        <img
+                          src={pkg.urls.logo}
+                          alt={`${pkg.display_name} logo`}
+                          className="size-6 object-contain"
+                        />
+                      )}
+                      {pkg.display_name}
+                      {cloneStatus === "cloning" && (
+                        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                      )}
+                    </CardTitle>
+                    <CardDescription className="text-xs sm:text-sm flex items-center gap-1.5">
+                      <span>{pkg.identifier}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 -mr-1"
+                        onClick={(e) => handleCopyIdentifier(e, pkg.identifier)}
+                        title="Copy package ID"
+                      >
+                        <Copy className="size-3" />
+                      </Button>
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-xs sm:text-sm text-muted-foreground space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary">
+                          {pkg.storage_type === "cloned" ? "Cloned" : pkg.storage_type === "archive" ? "Archive" : "Local"}
+                        </span>
                       </div>
-                    )}
-                  </div>
-                </CardContent>
-              </Card>
-            </Link>
-          ))}
+                      <div>Manager: {pkg.package_manager || "N/A"}</div>
+                      {pkg.storage_type === "cloned" && (
+                        <div>Tag: {pkg.default_tag || "N/A"}</div>
+                      )}
+                      {pkg.storage_type === "archive" && pkg.archive && (
+                        <div>
+                          {pkg.archive.source === "file" ? "File" : pkg.archive.source}:{" "}
+                          {pkg.archive.source === "file" ? pkg.archive.path : (pkg.archive.name || pkg.identifier)}
+                          {pkg.archive.source !== "file" && ` @ ${pkg.default_tag || "latest"}`}
+                        </div>
+                      )}
+                      {pkg.storage_type !== "local" && pkg.last_updated && (
+                        <div
+                          className={pkg.last_updated.success ? undefined : "text-destructive"}
+                          title={pkg.last_updated.error ?? new Date(pkg.last_updated.at).toLocaleString()}
+                        >
+                          {pkg.last_updated.success ? "Updated" : "Update failed"}{" "}
+                          {formatRelativeTime(pkg.last_updated.at)}
+                        </div>
+                      )}
+                      {pkg.storage_type === "cloned" && pkg.evicted_at ? (
+                        <div title={`Evicted ${new Date(pkg.evicted_at).toLocaleString()}; the next query clones it again`}>
+                          Evicted {formatRelativeTime(pkg.evicted_at)}
+                        </div>
+                      ) : (
+                        pkg.last_accessed_at && (
+                          <div title={new Date(pkg.last_accessed_at).toLocaleString()}>
+                            Queried {formatRelativeTime(pkg.last_accessed_at)}
+                          </div>
+                        )
+                      )}
+                      {pkg.storage_type === "local" && (
+                        <div className="text-xs font-mono truncate" title={pkg.repo_path}>
+                          Path: {pkg.repo_path}
+                        </div>
+                      )}
+                      {liveClone ? (
+                        <CloneProgressDetails event={liveClone} />
+                      ) : (
+                        cloneStatus && cloneStatus !== "completed" && (
+                          <div className="text-xs">
+                            Status: {cloneStatus}
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
         </div>
       ) : packages.data && packages.data.length > 0 ? (
         <Card>
@@ -7,6 +7,7 @@ import { orpc } from "@/utils/orpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { VersionDriftCard } from "@/components/version-drift-card";
 import { Trash2, Package, ArrowLeft } from "lucide-react";
 
 // Lazy load dialogs for code splitting
@@ -45,6 +46,7 @@ function ProjectDetailComponent() {
     orpc.projects.removeDependency.mutationOptions({
       onSuccess: () => {
         queryClient.invalidateQueries({ queryKey: orpc.projects.get.key({ input: { identifier } }) });
+        queryClient.invalidateQueries({ queryKey: orpc.projects.driftReport.key({ input: { identifier } }) });
         toast.success("Dependency removed");
       },
       onError: (error: any) => {
@@ -179,6 +181,10 @@ function ProjectDetailComponent() {
             )}
           </CardContent>
         </Card>
+
+        {project.data.dependencies.length > 0 && (
+          <VersionDriftCard projectIdentifier={identifier} />
+        )}
       </div>
     </div>
   );
@@ -6,7 +6,7 @@ import { orpc } from "@/utils/orpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Plus, Search, Loader2 } from "lucide-react";
+import { Plus, Search, Loader2, Download } from "lucide-react";
 
 // Lazy load dialogs for code splitting
 const CreateProjectDialog = lazy(() =>
@@ -14,6 +14,11 @@ const CreateProjectDialog = lazy(() =>
     default: mod.CreateProjectDialog,
   }))
 );
+const ImportDependenciesDialog = lazy(() =>
+  import("@/components/dialogs/import-dependencies-dialog").then((mod) => ({
+    default: mod.ImportDependenciesDialog,
+  }))
+);
 import {
   Dialog,
   DialogContent,
@@ -96,7 +101,7 @@ function ProjectsComponent() {
           <DialogHeader>
             <DialogTitle>Scan Projects Directory</DialogTitle>
             <DialogDescription>
-              Found git repositories in your projects directory. Click "Add" to create a project with default settings.
+              Found git repositories in your projects directory. Click "Add" to create a project with default settings, then "Import Dependencies" to fill it from its manifests and lockfiles.
             </DialogDescription>
           </DialogHeader>
           {scanQuery.isFetching ? (
@@ -123,7 +128,25 @@ function ProjectsComponent() {
                         <div className="text-sm text-muted-foreground font-mono truncate mt-1" title={repo.path}>
                           {repo.relativePath}
                         </div>
+                        {repo.manifests.length > 0 && (
+                          <div className="text-xs text-muted-foreground truncate mt-1" title={repo.manifests.join(", ")}>
+                            Manifests: {repo.manifests.join(", ")}
+                          </div>
+                        )}
                       </div>
+                      {repo.alreadyExists && repo.manifests.length > 0 && (
+                        <Suspense fallback={<Button size="sm" variant="outline" disabled><Download className="size-4 mr-2" />Import Dependencies</Button>}>
+                          <ImportDependenciesDialog
+                            projectIdentifier={repo.suggestedIdentifier}
+                            path={repo.path}
+                          >
+                            <Button size="sm" variant="outline">
+                              <Download className="size-4 mr-2" />
+                              Import Dependencies
+                            </Button>
+                          </ImportDependenciesDialog>
+                        </Suspense>
+                      )}
                       {!repo.alreadyExists && (
                         <Button 
                           size="sm" 
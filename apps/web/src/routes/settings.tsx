@@ -1,3 +1,4 @@
+import { lazy, Suspense, useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
 import { useForm } from "@tanstack/react-form";
@@ -11,7 +12,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Settings } from "lucide-react";
+import { KeyRound, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+
+// Lazy load dialogs for code splitting
+const CredentialDialog = lazy(() =>
+  import("@/components/dialogs/credential-dialog").then((mod) => ({
+    default: mod.CredentialDialog,
+  }))
+);
 
 export const Route = createFileRoute("/settings")({
   component: SettingsComponent,
@@ -228,6 +236,363 @@ function SettingsComponent() {
           </CardContent>
         </Card>
       )}
+
+      {settings.data && (
+        <AutoFetchSettingsCard intervalMinutes={settings.data.auto_fetch_interval_minutes ?? 0} />
+      )}
+
+      {settings.data && (
+        <EvictionSettingsCard
+          evictAfterDays={settings.data.evict_after_days ?? 0}
+          diskBudgetGb={settings.data.disk_budget_gb ?? 0}
+        />
+      )}
+
+      {settings.data && <RegistrySettingsCard registries={settings.data.registries ?? {}} />}
+
+      <GitCredentialsCard />
     </div>
   );
 }
+
+function AutoFetchSettingsCard({ intervalMinutes }: { intervalMinutes: number }) {
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(String(intervalMinutes));
+
+  useEffect(() => {
+    setValue(String(intervalMinutes));
+  }, [intervalMinutes]);
+
+  const parsed = Number(value);
+  const isValid = value.trim() !== "" && Number.isInteger(parsed) && parsed >= 0;
+
+  const updateMutation = useMutation(
+    orpc.config.updateSettings.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: orpc.config.getSettings.key() });
+        toast.success("Auto-fetch interval updated");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to update auto-fetch interval");
+      },
+    })
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Automatic Updates</CardTitle>
+        <CardDescription>
+          Periodically fetch tags and pull the default branch of cloned packages
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValid) {
+              updateMutation.mutate({ auto_fetch_interval_minutes: parsed });
+            }
+          }}
+          className="space-y-2"
+        >
+          <Label htmlFor="auto_fetch_interval_minutes">Auto-fetch interval (minutes)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="auto_fetch_interval_minutes"
+              type="number"
+              min={0}
+              step={1}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              aria-invalid={!isValid}
+              className="max-w-[200px]"
+            />
+            <Button type="submit" disabled={!isValid || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Default for all cloned packages; a package can override it in its settings. Packages pinned to a tag are never fetched. Use 0 to turn automatic updates off.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function EvictionSettingsCard({
+  evictAfterDays,
+  diskBudgetGb,
+}: {
+  evictAfterDays: number;
+  diskBudgetGb: number;
+}) {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState(String(evictAfterDays));
+  const [budget, setBudget] = useState(String(diskBudgetGb));
+
+  useEffect(() => {
+    setDays(String(evictAfterDays));
+    setBudget(String(diskBudgetGb));
+  }, [evictAfterDays, diskBudgetGb]);
+
+  const parsedDays = Number(days);
+  const parsedBudget = Number(budget);
+  const daysValid = days.trim() !== "" && Number.isInteger(parsedDays) && parsedDays >= 0;
+  const budgetValid = budget.trim() !== "" && Number.isFinite(parsedBudget) && parsedBudget >= 0;
+
+  const updateMutation = useMutation(
+    orpc.config.updateSettings.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: orpc.config.getSettings.key() });
+        queryClient.invalidateQueries({ queryKey: orpc.storage.evictionPlan.key() });
+        toast.success("Eviction settings updated");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to update eviction settings");
+      },
+    })
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Clone Eviction</CardTitle>
+        <CardDescription>
+          Free disk space by removing clones that are not being queried
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (daysValid && budgetValid) {
+              updateMutation.mutate({ evict_after_days: parsedDays, disk_budget_gb: parsedBudget });
+            }
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="evict_after_days">Evict after (days without queries)</Label>
+              <Input
+                id="evict_after_days"
+                type="number"
+                min={0}
+                step={1}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                aria-invalid={!daysValid}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disk_budget_gb">Disk budget (GiB)</Label>
+              <Input
+                id="disk_budget_gb"
+                type="number"
+                min={0}
+                step="any"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                aria-invalid={!budgetValid}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Evicted clones are deleted but their packages are kept; the next query clones the repository again. Over the disk budget, the least recently queried clones are evicted first, but never ones queried in the last day. Use 0 to turn either rule off. The Storage page shows what would be evicted.
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!daysValid || !budgetValid || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+const REGISTRIES = [
+  { source: "npm", label: "npm", placeholder: "https://registry.npmjs.org" },
+  { source: "pypi", label: "PyPI", placeholder: "https://pypi.org" },
+  { source: "crates", label: "crates.io", placeholder: "https://crates.io" },
+] as const;
+
+type RegistryUrls = Partial<Record<(typeof REGISTRIES)[number]["source"], string>>;
+
+function RegistrySettingsCard({ registries }: { registries: RegistryUrls }) {
+  const queryClient = useQueryClient();
+  const [urls, setUrls] = useState<RegistryUrls>(registries);
+
+  useEffect(() => {
+    setUrls(registries);
+  }, [registries.npm, registries.pypi, registries.crates]);
+
+  const isValidUrl = (url: string | undefined) => {
+    if (!url?.trim()) return true;
+    try {
+      new URL(url.trim());
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  const allValid = REGISTRIES.every(({ source }) => isValidUrl(urls[source]));
+
+  const updateMutation = useMutation(
+    orpc.config.updateSettings.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: orpc.config.getSettings.key() });
+        toast.success("Registries updated");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to update registries");
+      },
+    })
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Package Registries</CardTitle>
+        <CardDescription>
+          Where archive packages are downloaded from
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (allValid) {
+              // Empty fields are sent as "" so the server resets them to the public registry
+              updateMutation.mutate({
+                registries: {
+                  npm: urls.npm?.trim() ?? "",
+                  pypi: urls.pypi?.trim() ?? "",
+                  crates: urls.crates?.trim() ?? "",
+                },
+              });
+            }
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {REGISTRIES.map(({ source, label, placeholder }) => (
+              <div key={source} className="space-y-2">
+                <Label htmlFor={`registry_${source}`}>{label}</Label>
+                <Input
+                  id={`registry_${source}`}
+                  type="url"
+                  value={urls[source] ?? ""}
+                  onChange={(e) => setUrls({ ...urls, [source]: e.target.value })}
+                  placeholder={placeholder}
+                  aria-invalid={!isValidUrl(urls[source])}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Point these at a mirror (e.g. Verdaccio, devpi or a crates.io mirror) to download
+            without reaching the public registries. Leave empty to use the public registry. A
+            package can override its registry in its settings.
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!allValid || updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function GitCredentialsCard() {
+  const queryClient = useQueryClient();
+  const credentials = useQuery(orpc.credentials.list.queryOptions());
+
+  const deleteMutation = useMutation(
+    orpc.credentials.delete.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: orpc.credentials.list.key() });
+        toast.success("Credential deleted");
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to delete credential");
+      },
+    })
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Git Credentials</CardTitle>
+            <CardDescription>
+              SSH keys and HTTPS tokens for cloning, fetching and pulling private repositories
+            </CardDescription>
+          </div>
+          <Suspense fallback={<Button size="sm" disabled><Plus className="size-4 mr-1" />Add</Button>}>
+            <CredentialDialog>
+              <Button size="sm">
+                <Plus className="size-4 mr-1" />
+                Add
+              </Button>
+            </CredentialDialog>
+          </Suspense>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {credentials.isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : credentials.data && credentials.data.length > 0 ? (
+          <div className="divide-y">
+            {credentials.data.map((credential) => (
+              <div key={credential.id} className="flex items-center gap-3 py-3 first:pt-0 last:pb-0">
+                <KeyRound className="size-4 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{credential.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono truncate">
+                    {credential.host}
+                    {credential.path_prefix ? `/${credential.path_prefix}` : ""}
+                    {" · "}
+                    {credential.type === "https_token"
+                      ? `token ${credential.token ?? ""}`
+                      : `ssh key ${credential.private_key ?? ""}`}
+                  </div>
+                </div>
+                <Suspense fallback={<Button variant="ghost" size="icon" className="size-8" disabled><Pencil className="size-4" /></Button>}>
+                  <CredentialDialog credential={credential}>
+                    <Button variant="ghost" size="icon" className="size-8" title="Edit">
+                      <Pencil className="size-4" />
+                    </Button>
+                  </CredentialDialog>
+                </Suspense>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8 text-destructive hover:text-destructive"
+                  title="Delete"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Are you sure you want to delete ${credential.name}?`)) {
+                      deleteMutation.mutate({ id: credential.id });
+                    }
+                  }}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No credentials. Public repositories clone without one.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
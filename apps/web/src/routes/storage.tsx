@@ -0,0 +1,250 @@
+import { lazy, Suspense, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { orpc } from "@/utils/orpc";
+import { formatBytes } from "@/utils/bytes";
+import { formatRelativeTime } from "@/utils/time";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronDown, ChevronRight, Clock, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Lazy load dialogs for code splitting
+const CollectGarbageDialog = lazy(() =>
+  import("@/components/dialogs/collect-garbage-dialog").then((mod) => ({
+    default: mod.CollectGarbageDialog,
+  }))
+);
+
+export const Route = createFileRoute("/storage")({
+  component: StorageComponent,
+});
+
+function StorageComponent() {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const usage = useQuery(orpc.storage.usage.queryOptions());
+  const evictionPlan = useQuery(orpc.storage.evictionPlan.queryOptions());
+  const orphanedCount = usage.data?.clones.filter((clone) => clone.orphaned).length ?? 0;
+  const pendingEviction = new Map(
+    evictionPlan.data?.clones.map((clone) => [clone.id, clone.reason]) ?? [],
+  );
+  const policy = evictionPlan.data?.policy;
+
+  const evictMutation = useMutation(
+    orpc.storage.evict.mutationOptions({
+      onSuccess: (result) => {
+        queryClient.invalidateQueries({ queryKey: orpc.storage.usage.key() });
+        queryClient.invalidateQueries({ queryKey: orpc.storage.evictionPlan.key() });
+        queryClient.invalidateQueries({ queryKey: orpc.packages.list.key() });
+        toast.success(
+          `Evicted ${result.removed.length} clone${result.removed.length === 1 ? "" : "s"}, freed ${formatBytes(result.freedBytes)}`,
+        );
+        for (const skipped of result.skipped) {
+          toast.warning(`Kept ${skipped.id}: ${skipped.reason}`);
+        }
+      },
+      onError: (error: any) => {
+        toast.error(error.message || "Failed to evict clones");
+      },
+    })
+  );
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 py-6 sm:py-8">
+      <div className="mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Storage</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">
+            Disk used by cloned repositories, their worktrees and unpacked archives
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              usage.refetch();
+              evictionPlan.refetch();
+            }}
+            disabled={usage.isFetching}
+          >
+            <RefreshCw className={`size-4 mr-2 ${usage.isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => evictMutation.mutate({})}
+            disabled={pendingEviction.size === 0 || evictMutation.isPending}
+          >
+            <Clock className="size-4 mr-2" />
+            {evictMutation.isPending ? "Evicting..." : "Evict Now"}
+          </Button>
+          <Suspense fallback={<Button variant="destructive" disabled><Trash2 className="size-4 mr-2" />Remove Orphaned</Button>}>
+            <CollectGarbageDialog>
+              <Button variant="destructive" disabled={orphanedCount === 0}>
+                <Trash2 className="size-4 mr-2" />
+                Remove Orphaned
+              </Button>
+            </CollectGarbageDialog>
+          </Suspense>
+        </div>
+      </div>
+
+      {policy && (
+        <p className="text-sm text-muted-foreground mb-4">
+          {policy.evictAfterDays === 0 && policy.diskBudgetBytes === 0
+            ? "Clone eviction is off; turn it on in Settings."
+            : [
+                policy.evictAfterDays > 0 &&
+                  `Clones not queried for ${policy.evictAfterDays} day${policy.evictAfterDays === 1 ? "" : "s"} are evicted.`,
+                policy.diskBudgetBytes > 0 &&
+                  `Over ${formatBytes(policy.diskBudgetBytes)}, the least recently queried clones are evicted.`,
+                pendingEviction.size > 0 &&
+                  `${pendingEviction.size} clone${pendingEviction.size === 1 ? "" : "s"} (${formatBytes(evictionPlan.data!.freedBytes)}) will be evicted at the next hourly check.`,
+              ]
+                .filter(Boolean)
+                .join(" ")}
+        </p>
+      )}
+
+      {usage.isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : usage.data && usage.data.clones.length > 0 ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-xs text-muted-foreground">Total</div>
+                <div className="text-2xl font-bold">{formatBytes(usage.data.totalBytes)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-xs text-muted-foreground">Clones</div>
+                <div className="text-2xl font-bold">{usage.data.clones.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-xs text-muted-foreground">Orphaned</div>
+                <div className="text-2xl font-bold">
+                  {orphanedCount}
+                  <span className="text-sm font-normal text-muted-foreground ml-2">
+                    {formatBytes(usage.data.orphanedBytes)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-2">
+            {usage.data.clones.map((clone) => {
+              const isOpen = expanded === clone.id;
+              return (
+                <Card key={clone.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-center gap-3">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 shrink-0"
+                        onClick={() => setExpanded(isOpen ? null : clone.id)}
+                        disabled={clone.worktrees.length === 0}
+                        title={
+                          clone.kind === "archive"
+                            ? isOpen ? "Hide versions" : "Show versions"
+                            : isOpen ? "Hide worktrees" : "Show worktrees"
+                        }
+                      >
+                        {isOpen ? <ChevronDown className="size-4" /> : <ChevronRight className="size-4" />}
+                      </Button>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-sm truncate">{clone.id}</span>
+                          {clone.kind === "archive" && (
+                            <span className="text-xs px-2 py-0.5 rounded font-medium shrink-0 bg-muted text-muted-foreground">
+                              archive
+                            </span>
+                          )}
+                          {clone.orphaned && (
+                            <span className="text-xs px-2 py-0.5 rounded font-medium shrink-0 bg-destructive/10 text-destructive">
+                              orphaned
+                            </span>
+                          )}
+                          {pendingEviction.has(clone.id) && (
+                            <span className="text-xs px-2 py-0.5 rounded font-medium shrink-0 bg-muted text-muted-foreground">
+                              {pendingEviction.get(clone.id) === "idle" ? "idle, will be evicted" : "over budget, will be evicted"}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {clone.packages.length > 0 ? (
+                            clone.packages.map((identifier, index) => (
+                              <span key={identifier}>
+                                {index > 0 && ", "}
+                                <Link
+                                  to="/package/$identifier"
+                                  params={{ identifier }}
+                                  className="hover:underline"
+                                >
+                                  {identifier}
+                                </Link>
+                              </span>
+                            ))
+                          ) : (
+                            "Not used by any package"
+                          )}
+                        </div>
+                        {!clone.orphaned && (
+                          <div className="text-xs text-muted-foreground">
+                            {clone.lastAccessedAt
+                              ? `Queried ${formatRelativeTime(clone.lastAccessedAt)}`
+                              : "Not queried yet"}
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="text-sm font-medium">
+                          {formatBytes(clone.bytes + clone.worktreeBytes)}
+                        </div>
+                        {clone.worktrees.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {clone.worktrees.length} {clone.kind === "archive" ? "version" : "worktree"}
+                            {clone.worktrees.length === 1 ? "" : "s"},{" "}
+                            {formatBytes(clone.worktreeBytes)}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    {isOpen && (
+                      <div className="mt-3 ml-9 space-y-1">
+                        {clone.worktrees.map((worktree) => (
+                          <div key={worktree.path} className="flex justify-between text-xs">
+                            <span className="font-mono text-muted-foreground truncate">{worktree.name}</span>
+                            <span>{formatBytes(worktree.bytes)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No cloned repositories or unpacked archives</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+const UNITS = ["B", "KiB", "MiB", "GiB", "TiB"];
+
+/**
+ * Format a byte count with a binary unit, e.g. "512 B" or "1.5 GiB".
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+}
@@ -0,0 +1,20 @@
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+
+/**
+ * Format an ISO timestamp relative to now, e.g. "5 minutes ago" or "yesterday".
+ */
+export function formatRelativeTime(iso: string): string {
+  const elapsed = Date.now() - new Date(iso).getTime();
+  for (const [unit, ms] of UNITS) {
+    if (Math.abs(elapsed) >= ms) {
+      return relativeTime.format(-Math.round(elapsed / ms), unit);
+    }
+  }
+  return "just now";
+}
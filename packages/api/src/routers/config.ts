@@ -105,18 +105,43 @@ export const configRouter = {
 
   updateSettings: publicProcedure
     .input(
+      // Left-out packages dir, auto-fetch interval, eviction settings and registries keep their current value
       z.object({
-        default_packages_dir: z.string().min(1),
+        default_packages_dir: z.string().min(1).optional(),
         default_agent_prompt: z.string().optional(),
+        auto_fetch_interval_minutes: z.number().int().min(0).optional(),
+        evict_after_days: z.number().int().min(0).optional(),
+        disk_budget_gb: z.number().min(0).optional(),
+        // "" resets a registry to the public one
+        registries: z
+          .object({
+            npm: z.string().optional(),
+            pypi: z.string().optional(),
+            crates: z.string().optional(),
+          })
+          .optional(),
       }),
     )
     .handler(async ({ input }) => {
       // PACKAGES_DIR is typically /data/packages, so parent is /data
       const dataDir = dirname(env.PACKAGES_DIR) || "/data";
       try {
+        const current = await readGlobalConfig(dataDir);
         await writeGlobalConfig(dataDir, {
-          default_packages_dir: input.default_packages_dir,
+          default_packages_dir: input.default_packages_dir ?? current.default_packages_dir,
+          // The prompt now lives in opencode.json; the web UI clears it here
           default_agent_prompt: input.default_agent_prompt,
+          auto_fetch_interval_minutes:
+            input.auto_fetch_interval_minutes ?? current.auto_fetch_interval_minutes,
+          evict_after_days: input.evict_after_days ?? current.evict_after_days,
+          disk_budget_gb: input.disk_budget_gb ?? current.disk_budget_gb,
+          registries: input.registries
+            ? Object.fromEntries(
+                Object.entries({ ...current.registries, ...input.registries })
+                  .map(([source, url]) => [source, url?.trim()])
+                  .filter(([, url]) => url),
+              )
+            : current.registries,
         });
         return { success: true };
       } catch (error) {
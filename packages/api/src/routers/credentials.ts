@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { ORPCError } from "@orpc/server";
+import { publicProcedure } from "../index";
+import {
+  listCredentials,
+  createCredential,
+  updateCredential,
+  deleteCredential,
+} from "@kinetic-context/server-utils";
+
+// Secrets are write-only: responses carry masked values, and an empty or missing
+// token / private_key on update keeps the stored one
+const CredentialInputSchema = z.object({
+  name: z.string().min(1),
+  host: z.string().min(1), // e.g. "github.com" or "git.example.com:8443"
+  path_prefix: z.string().optional(), // e.g. "my-org/" to use different credentials per org
+  type: z.enum(["https_token", "ssh_key"]),
+  username: z.string().optional(),
+  token: z.string().optional(),
+  private_key: z.string().optional(),
+  known_hosts: z.string().optional(),
+});
+
+function credentialNotFound(id: string): ORPCError<"NOT_FOUND", unknown> {
+  return new ORPCError("NOT_FOUND", { message: `Credential "${id}" not found` });
+}
+
+function invalidCredential(error: unknown): ORPCError<"BAD_REQUEST", unknown> {
+  return new ORPCError("BAD_REQUEST", {
+    message: error instanceof Error ? error.message : "Invalid credential",
+  });
+}
+
+export const credentialsRouter = {
+  list: publicProcedure.handler(async () => {
+    return listCredentials();
+  }),
+
+  create: publicProcedure.input(CredentialInputSchema).handler(async ({ input }) => {
+    try {
+      return await createCredential(input);
+    } catch (error) {
+      throw invalidCredential(error);
+    }
+  }),
+
+  update: publicProcedure
+    .input(CredentialInputSchema.partial().extend({ id: z.string() }))
+    .handler(async ({ input }) => {
+      const { id, ...changes } = input;
+      let updated;
+      try {
+        updated = await updateCredential(id, changes);
+      } catch (error) {
+        throw invalidCredential(error);
+      }
+      if (!updated) {
+        throw credentialNotFound(id);
+      }
+      return updated;
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input }) => {
+      if (!(await deleteCredential(input.id))) {
+        throw credentialNotFound(input.id);
+      }
+      return { success: true };
+    }),
+};
@@ -5,6 +5,9 @@ import { projectsRouter } from "./projects";
 import { packagesRouter } from "./packages";
 import { statsRouter } from "./stats";
 import { configRouter } from "./config";
+import { jobsRouter } from "./jobs";
+import { credentialsRouter } from "./credentials";
+import { storageRouter } from "./storage";
 
 export const appRouter = {
   healthCheck: publicProcedure.handler(() => {
@@ -14,6 +17,9 @@ export const appRouter = {
   packages: packagesRouter,
   stats: statsRouter,
   config: configRouter,
+  jobs: jobsRouter,
+  credentials: credentialsRouter,
+  storage: storageRouter,
 };
 export type AppRouter = typeof appRouter;
 export type AppRouterClient = RouterClient<typeof appRouter>;
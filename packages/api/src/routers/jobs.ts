@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { ORPCError } from "@orpc/server";
+import { publicProcedure } from "../index";
+import {
+  listJobs,
+  getJob,
+  enqueueJob,
+  cancelJob,
+  retryJob,
+} from "@kinetic-context/server-utils";
+
+const JobTypeSchema = z.enum(["clone", "pull", "reindex", "kctx_helper"]);
+const JobStateSchema = z.enum(["queued", "running", "succeeded", "failed", "cancelled"]);
+
+function jobNotFound(id: string): ORPCError<"NOT_FOUND", unknown> {
+  return new ORPCError("NOT_FOUND", { message: `Job "${id}" not found` });
+}
+
+export const jobsRouter = {
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          type: JobTypeSchema.optional(),
+          state: JobStateSchema.optional(),
+          identifier: z.string().optional(),
+        })
+        .optional(),
+    )
+    .handler(async ({ input }) => {
+      return listJobs(input ?? {});
+    }),
+
+  get: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input }) => {
+      const job = await getJob(input.id);
+      if (!job) {
+        throw jobNotFound(input.id);
+      }
+      return job;
+    }),
+
+  // Queue a job by hand, e.g. "reindex" after a new release or "pull" for one package
+  enqueue: publicProcedure
+    .input(
+      z.object({
+        type: JobTypeSchema,
+        identifier: z.string(),
+        force: z.boolean().optional(), // kctx_helper: regenerate an existing summary
+      }),
+    )
+    .handler(async ({ input }) => {
+      try {
+        return await enqueueJob(input.type, input.identifier, { force: input.force });
+      } catch (error) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: error instanceof Error ? error.message : "Failed to queue job",
+        });
+      }
+    }),
+
+  cancel: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input }) => {
+      const job = await cancelJob(input.id);
+      if (!job) {
+        throw jobNotFound(input.id);
+      }
+      return job;
+    }),
+
+  retry: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .handler(async ({ input }) => {
+      const job = await retryJob(input.id);
+      if (!job) {
+        throw jobNotFound(input.id);
+      }
+      return job;
+    }),
+};
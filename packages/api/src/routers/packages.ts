@@ -4,38 +4,67 @@ import { publicProcedure } from "../index";
 import { env } from "@kinetic-context/env/server";
 import {
   listPackageConfigs,
-  readPackageConfig,
+  findPackageConfig,
   writePackageConfig,
   deletePackageConfig,
   readOpencodeConfig,
-  ensureRepoCloned,
   ensureRepoAvailable,
-  checkoutTag,
   getRepoIdentifierFromUrl,
-  getDefaultBranch,
   listBranches,
+  listTags,
   discoverGitRepositories,
-  pullRepository,
   queryOpencodeStream,
-  regenerateKctxHelper,
+  enqueueJob,
+  waitForJob,
+  getCloneStatus,
+  toCloneStatus,
+  watchJobs,
+  cancelPackageJobs,
+  removeUnusedArchive,
+  resolveDependencyRepo,
+  locateDependencyRepo,
+  recordPackageAccess,
+  compareRefs,
+  explainVersionComparison,
+  searchRepository,
+  normalizeSubpath,
+  hasEmbeddedCredentials,
+  getArchiveRoot,
+  listArchiveTags,
+  restoreRepoFromBundle,
+  createPackageBundle,
+  readPackageBundle,
+  type PackageBundleContents,
   type PackageConfig,
   type OpencodeModel,
+  type Job,
 } from "@kinetic-context/server-utils";
+import { createWriteStream, openAsBlob } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
-
-// In-memory clone status tracking
-const cloneStatus = new Map<
-  string,
-  "pending" | "cloning" | "completed" | "error"
->();
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+const ArchiveInputSchema = z.object({
+  source: z.enum(["npm", "pypi", "crates", "file"]),
+  name: z.string().optional(), // Name in the registry; defaults to the identifier
+  path: z.string().optional(), // Required for local archives (source "file")
+  registry_url: z.string().optional(), // Overrides the global registry URL
+});
 
 const CreatePackageInputSchema = z.object({
   identifier: z.string().min(1),
   package_manager: z.string(), // Can be empty
   display_name: z.string().min(1),
-  storage_type: z.enum(["cloned", "local"]),
-  repo_path: z.string().optional(), // Required for local repos, calculated for cloned
-  default_tag: z.string().optional(), // Only for cloned repos, can be "auto" or a specific branch/tag
+  storage_type: z.enum(["cloned", "local", "archive"]),
+  repo_path: z.string().optional(), // Required for local repos, calculated for cloned repos and archives
+  default_tag: z.string().optional(), // Cloned repos: "auto" or a branch/tag; archives: a version, range or "latest"
+  archive: ArchiveInputSchema.optional(), // Required for archives
+  subpath: z.string().optional(), // Package directory inside the repo (monorepos)
+  sparse_checkout: z.boolean().optional(), // Only check out subpath (cloned repos)
+  auto_fetch_interval_minutes: z.number().int().min(0).optional(), // Unset uses the global default; 0 disables
   urls: z.object({
     website: z.string().optional(),
     docs: z.string().optional(),
@@ -60,15 +89,34 @@ const CreatePackageInputSchema = z.object({
       path: ["repo_path"],
     });
   }
+  // Archives need a source, and local archives a path
+  if (data.storage_type === "archive" && !data.archive) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Archive source is required for archives",
+      path: ["archive"],
+    });
+  }
+  if (data.storage_type === "archive" && data.archive?.source === "file" && !data.archive.path) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Archive path is required for local archives",
+      path: ["archive", "path"],
+    });
+  }
 });
 
 const UpdatePackageInputSchema = z.object({
   identifier: z.string().min(1),
   package_manager: z.string().optional(),
   display_name: z.string().min(1).optional(),
-  storage_type: z.enum(["cloned", "local"]).optional(),
+  storage_type: z.enum(["cloned", "local", "archive"]).optional(),
   repo_path: z.string().optional(),
   default_tag: z.string().optional(),
+  archive: ArchiveInputSchema.optional(),
+  subpath: z.string().optional(), // "" removes it
+  sparse_checkout: z.boolean().optional(),
+  auto_fetch_interval_minutes: z.number().int().min(0).nullable().optional(), // null: use the global default
   urls: z
     .object({
       website: z.string().optional(),
@@ -80,9 +128,60 @@ const UpdatePackageInputSchema = z.object({
     .optional(),
 });
 
+// Normalize a package subpath, rejecting paths outside the repository
+function parseSubpath(subpath: string | undefined): string | undefined {
+  try {
+    return normalizeSubpath(subpath);
+  } catch (error) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: error instanceof Error ? error.message : "Invalid subpath",
+    });
+  }
+}
+
+// Secrets belong in the credentials store, not in package JSON
+function assertNoEmbeddedCredentials(gitUrl: string | undefined): void {
+  if (gitUrl && hasEmbeddedCredentials(gitUrl)) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Git URLs must not contain a password or token; add a credential in Settings instead",
+    });
+  }
+}
+
+// Trim an archive source and work out where its versions are unpacked
+function parseArchive(
+  archive: z.infer<typeof ArchiveInputSchema> | undefined,
+  identifier: string,
+): { archive: NonNullable<PackageConfig["archive"]>; repoPath: string } {
+  if (!archive) {
+    throw new ORPCError("BAD_REQUEST", { message: "Archive source is required for archives" });
+  }
+  const parsed: NonNullable<PackageConfig["archive"]> = { source: archive.source };
+  const name = archive.name?.trim();
+  const path = archive.path?.trim();
+  const registryUrl = archive.registry_url?.trim();
+  if (name) parsed.name = name;
+  if (archive.source === "file") {
+    if (!path) {
+      throw new ORPCError("BAD_REQUEST", { message: "Archive path is required for local archives" });
+    }
+    parsed.path = path;
+  } else if (registryUrl) {
+    parsed.registry_url = registryUrl;
+  }
+  try {
+    return { archive: parsed, repoPath: getArchiveRoot(env.PACKAGES_DIR, parsed, identifier) };
+  } catch (error) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: error instanceof Error ? error.message : "Invalid package name",
+    });
+  }
+}
+
 // Helper function to get the correct packages directory based on storage type
-function getPackagesDir(storageType: "cloned" | "local"): string {
-  if (storageType === "cloned") {
+function getPackagesDir(storageType: PackageConfig["storage_type"]): string {
+  if (storageType === "cloned" || storageType === "archive") {
+    // Archives are unpacked under PACKAGES_DIR like clones
     return env.PACKAGES_DIR;
   } else {
     // local uses LOCAL_PACKAGES_DIR
@@ -90,68 +189,126 @@ function getPackagesDir(storageType: "cloned" | "local"): string {
   }
 }
 
-// Helper function to find a package in either directory
-async function findPackageConfig(identifier: string): Promise<{ config: PackageConfig; dir: string } | null> {
-  // Try packages directory first (cloned repos)
-  let config = await readPackageConfig(env.PACKAGES_DIR, identifier, true);
-  if (config) {
-    return { config, dir: env.PACKAGES_DIR };
+// A response file read from disk as it is sent, whose work directory is removed once the
+// download finished or was aborted (the fetch adapter reads response files via stream())
+class TemporaryFile extends File {
+  constructor(
+    blob: Blob,
+    name: string,
+    private readonly workDir: string,
+  ) {
+    super([blob], name, { type: blob.type });
   }
-  
-  // Try local packages directory (local repos)
-  config = await readPackageConfig(env.LOCAL_PACKAGES_DIR, identifier, true);
-  if (config) {
-    return { config, dir: env.LOCAL_PACKAGES_DIR };
+
+  override stream(): ReturnType<File["stream"]> {
+    const reader = super.stream().getReader();
+    const cleanup = () => rm(this.workDir, { recursive: true, force: true });
+    return new ReadableStream({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            await cleanup();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+          await cleanup();
+        }
+      },
+      async cancel(reason) {
+        await reader.cancel(reason);
+        await cleanup();
+      },
+    });
   }
-  
-  return null;
 }
 
-// Async clone function for cloned repos
-async function cloneRepository(
-  identifier: string,
-  repoPath: string,
-  gitUrl: string,
-  defaultTag?: string
-): Promise<void> {
-  cloneStatus.set(identifier, "cloning");
-  try {
-    // ensureRepoCloned now uses the git URL to determine the repo location
-    // This allows multiple packages from the same repo to share the same clone
-    const actualRepoPath = await ensureRepoCloned(env.PACKAGES_DIR, gitUrl);
-    
-    // If defaultTag is "auto", detect the default branch
-    if (defaultTag === "auto") {
-      const detectedBranch = await getDefaultBranch(actualRepoPath);
-
-      // Update the package config with the detected branch
-      const pkg = await readPackageConfig(env.PACKAGES_DIR, identifier);
-      if (pkg) {
-        pkg.default_tag = detectedBranch;
-        // Also update repo_path to match the actual shared location
-        pkg.repo_path = actualRepoPath;
-        await writePackageConfig(env.PACKAGES_DIR, pkg);
-      }
+// Create a package config (and enqueue its clone or download), shared by create and importBundle
+async function createPackage(input: z.infer<typeof CreatePackageInputSchema>) {
+  // Check if package already exists in either directory
+  const existing = await findPackageConfig(input.identifier);
+  if (existing) {
+    throw new ORPCError({
+      code: "CONFLICT",
+      message: `Package with identifier "${input.identifier}" already exists`,
+    });
+  }
+  assertNoEmbeddedCredentials(input.urls.git);
 
-      // Checkout the detected branch
-      await checkoutTag(actualRepoPath, detectedBranch);
-    } else if (defaultTag) {
-      // Checkout the specified tag/branch
-      await checkoutTag(actualRepoPath, defaultTag);
+  // Determine repo_path and packages directory based on storage_type
+  let repoPath: string;
+  let packagesDir: string;
+  let archive: PackageConfig["archive"];
+  
+  if (input.storage_type === "archive") {
+    ({ archive, repoPath } = parseArchive(input.archive, input.identifier));
+    packagesDir = env.PACKAGES_DIR;
+  } else if (input.storage_type === "cloned") {
+    // For cloned repos, use a normalized identifier based on the git URL
+    // This allows multiple packages from the same repo to share the same clone
+    if (!input.urls.git) {
+      throw new ORPCError({
+        code: "BAD_REQUEST",
+        message: "Git URL is required for cloned repositories",
+      });
     }
-
-    // Update the package config with the actual repo path (in case it was different)
-    const pkg = await readPackageConfig(env.PACKAGES_DIR, identifier);
-    if (pkg && pkg.repo_path !== actualRepoPath) {
-      pkg.repo_path = actualRepoPath;
-      await writePackageConfig(env.PACKAGES_DIR, pkg);
+    const repoIdentifier = getRepoIdentifierFromUrl(input.urls.git);
+    // Use env.PACKAGES_DIR directly to match where ensureRepoCloned actually clones
+    repoPath = join(env.PACKAGES_DIR, repoIdentifier);
+    packagesDir = env.PACKAGES_DIR;
+  } else {
+    // For local repos, use the provided path
+    if (!input.repo_path) {
+      throw new ORPCError({
+        code: "BAD_REQUEST",
+        message: "Repository path is required for local repositories",
+      });
     }
-    
-    cloneStatus.set(identifier, "completed");
-  } catch (error) {
-    cloneStatus.set(identifier, "error");
-    console.error(`Failed to clone repository for ${identifier}:`, error);
+    repoPath = input.repo_path;
+    packagesDir = env.LOCAL_PACKAGES_DIR;
+  }
+
+  const storageType = input.storage_type;
+  // For cloned repos, default to "auto" (detect default branch) when not specified,
+  // and for archives to the registry's latest version
+  const defaultTag =
+    input.storage_type !== "local" &&
+    (input.default_tag === undefined || input.default_tag === "")
+      ? input.storage_type === "archive" ? "latest" : "auto"
+      : input.default_tag;
+
+  const subpath = parseSubpath(input.subpath);
+  const pkg: PackageConfig = {
+    identifier: input.identifier,
+    package_manager: input.package_manager,
+    display_name: input.display_name,
+    storage_type: storageType,
+    repo_path: repoPath,
+    default_tag: defaultTag,
+    urls: input.urls,
+    ...(archive ? { archive } : {}),
+    ...(subpath ? { subpath } : {}),
+    ...(subpath && input.sparse_checkout ? { sparse_checkout: true } : {}),
+    ...(input.storage_type === "cloned" && input.auto_fetch_interval_minutes !== undefined
+      ? { auto_fetch_interval_minutes: input.auto_fetch_interval_minutes }
+      : {}),
+  };
+
+  // Write config file to the correct directory
+  await writePackageConfig(packagesDir, pkg);
+
+  // Clone (or download the archive) in the background (see the jobs router)
+  if (input.storage_type !== "local") {
+    await enqueueJob("clone", input.identifier);
   }
+
+  return {
+    ...pkg,
+    cloneStatus: await getCloneStatus(input.identifier),
+  };
 }
 
 export const packagesRouter = {
@@ -161,10 +318,12 @@ export const packagesRouter = {
     const localPackages = await listPackageConfigs(env.LOCAL_PACKAGES_DIR);
     const allPackages = [...clonedPackages, ...localPackages];
     
-    return allPackages.map((pkg) => ({
-      ...pkg,
-      cloneStatus: cloneStatus.get(pkg.identifier) ?? "completed",
-    }));
+    return Promise.all(
+      allPackages.map(async (pkg) => ({
+        ...pkg,
+        cloneStatus: await getCloneStatus(pkg.identifier),
+      })),
+    );
   }),
 
   get: publicProcedure
@@ -179,89 +338,116 @@ export const packagesRouter = {
       }
       return {
         ...found.config,
-        cloneStatus: cloneStatus.get(found.config.identifier) ?? "completed",
+        cloneStatus: await getCloneStatus(found.config.identifier),
       };
     }),
 
   create: publicProcedure
     .input(CreatePackageInputSchema)
     .handler(async ({ input }) => {
-      // Check if package already exists in either directory
-      const existing = await findPackageConfig(input.identifier);
-      if (existing) {
-        throw new ORPCError({
-          code: "CONFLICT",
-          message: `Package with identifier "${input.identifier}" already exists`,
+      return createPackage(input);
+    }),
+
+  // Package archive for machines that can't reach the repositories: the selected
+  // packages' configs plus a git bundle of each clone (see importBundle)
+  exportBundle: publicProcedure
+    .input(z.object({ identifiers: z.array(z.string()).min(1) }))
+    .handler(async ({ input }) => {
+      const workDir = await mkdtemp(join(tmpdir(), "kctx-export-"));
+      try {
+        const archivePath = join(workDir, "packages.tar");
+        await createPackageBundle(input.identifiers, archivePath);
+        const date = new Date().toISOString().slice(0, 10);
+        // Git bundles can be gigabytes: the archive is streamed from disk, not loaded
+        const file: File = new TemporaryFile(
+          await openAsBlob(archivePath, { type: "application/x-tar" }),
+          `kinetic-context-packages-${date}.tar`,
+          workDir,
+        );
+        return file;
+      } catch (error) {
+        await rm(workDir, { recursive: true, force: true });
+        throw new ORPCError("INTERNAL_SERVER_ERROR", {
+          message: error instanceof Error ? error.message : "Failed to export packages",
         });
       }
+    }),
 
-      // Determine repo_path and packages directory based on storage_type
-      let repoPath: string;
-      let packagesDir: string;
-      
-      if (input.storage_type === "cloned") {
-        // For cloned repos, use a normalized identifier based on the git URL
-        // This allows multiple packages from the same repo to share the same clone
-        if (!input.urls.git) {
-          throw new ORPCError({
-            code: "BAD_REQUEST",
-            message: "Git URL is required for cloned repositories",
-          });
-        }
-        const repoIdentifier = getRepoIdentifierFromUrl(input.urls.git);
-        // Use env.PACKAGES_DIR directly to match where ensureRepoCloned actually clones
-        repoPath = join(env.PACKAGES_DIR, repoIdentifier);
-        packagesDir = env.PACKAGES_DIR;
-      } else {
-        // For local repos, use the provided path
-        if (!input.repo_path) {
-          throw new ORPCError({
-            code: "BAD_REQUEST",
-            message: "Repository path is required for local repositories",
+  // Import an archive from exportBundle: recreate its clones under PACKAGES_DIR, then
+  // create the packages as `create` does (their clone jobs find the clones in place).
+  // Existing packages are skipped, though a missing clone of theirs is still restored.
+  importBundle: publicProcedure
+    .input(z.object({ file: z.instanceof(File) }))
+    .handler(async ({ input }) => {
+      const workDir = await mkdtemp(join(tmpdir(), "kctx-import-"));
+      try {
+        const archivePath = join(workDir, "packages.tar");
+        await pipeline(Readable.fromWeb(input.file.stream() as NodeReadableStream), createWriteStream(archivePath));
+        let contents: PackageBundleContents;
+        try {
+          contents = await readPackageBundle(archivePath, join(workDir, "contents"));
+        } catch (error) {
+          throw new ORPCError("BAD_REQUEST", {
+            message: error instanceof Error ? error.message : "Invalid package archive",
           });
         }
-        repoPath = input.repo_path;
-        packagesDir = env.LOCAL_PACKAGES_DIR;
-      }
-
-      const storageType = input.storage_type;
-      // For cloned repos, default to "auto" (detect default branch) when not specified
-      const defaultTag =
-        input.storage_type === "cloned" &&
-        (input.default_tag === undefined || input.default_tag === "")
-          ? "auto"
-          : input.default_tag;
-
-      const pkg: PackageConfig = {
-        identifier: input.identifier,
-        package_manager: input.package_manager,
-        display_name: input.display_name,
-        storage_type: storageType,
-        repo_path: repoPath,
-        default_tag: defaultTag,
-        urls: input.urls,
-      };
 
-      // Write config file to the correct directory
-      await writePackageConfig(packagesDir, pkg);
+        const result = {
+          imported: 0,
+          skipped: 0,
+          restored: 0,
+          errors: [] as Array<{ identifier: string; error: string }>,
+        };
+        for (const { config, bundle } of contents.packages) {
+          try {
+            const parsed = CreatePackageInputSchema.safeParse(config);
+            if (!parsed.success) {
+              throw new Error(parsed.error.issues[0]?.message ?? "Invalid package config");
+            }
+            const pkg = parsed.data;
+            if (pkg.storage_type === "local" || pkg.archive?.source === "file") {
+              throw new Error("Cannot import local packages or archive files (system-specific paths required)");
+            }
+            assertNoEmbeddedCredentials(pkg.urls.git);
+
+            // Restore the clone where this machine's config for the package expects it
+            const existing = await findPackageConfig(pkg.identifier);
+            const gitUrl = existing
+              ? existing.config.storage_type === "cloned" ? existing.config.urls.git : undefined
+              : pkg.urls.git;
+            if (bundle && gitUrl && getRepoIdentifierFromUrl(gitUrl) === bundle.repo) {
+              const { restored } = await restoreRepoFromBundle(
+                env.PACKAGES_DIR,
+                gitUrl,
+                bundle.path,
+                bundle.defaultBranch,
+              );
+              if (restored) {
+                result.restored++;
+                // Records the update on the existing package and clears evicted_at
+                if (existing) {
+                  await enqueueJob("clone", pkg.identifier);
+                }
+              }
+            }
 
-      // Start async clone only for cloned repos (don't await)
-      if (input.storage_type === "cloned" && input.urls.git) {
-        cloneStatus.set(input.identifier, "pending");
-        cloneRepository(input.identifier, repoPath, input.urls.git, defaultTag).catch(
-          (error) => {
-            console.error(`Background clone failed for ${input.identifier}:`, error);
+            if (existing) {
+              result.skipped++;
+              continue;
+            }
+            await createPackage(pkg);
+            result.imported++;
+          } catch (error) {
+            result.errors.push({
+              identifier: config.identifier,
+              error: error instanceof Error ? error.message : "Failed to import package",
+            });
           }
-        );
-      } else {
-        // For local repos, mark as completed immediately
-        cloneStatus.set(input.identifier, "completed");
+        }
+        return result;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
       }
-
-      return {
-        ...pkg,
-        cloneStatus: input.storage_type === "cloned" ? ("pending" as const) : ("completed" as const),
-      };
     }),
 
   update: publicProcedure
@@ -274,6 +460,7 @@ export const packagesRouter = {
           message: `Package with identifier "${input.identifier}" not found`,
         });
       }
+      assertNoEmbeddedCredentials(input.urls?.git);
 
       const existing = found.config;
       const currentDir = found.dir;
@@ -293,7 +480,37 @@ export const packagesRouter = {
         repo_path: input.repo_path ?? existing.repo_path,
         default_tag: input.default_tag ?? existing.default_tag,
         urls: input.urls ? { ...existing.urls, ...input.urls } : existing.urls,
+        subpath:
+          input.subpath !== undefined ? parseSubpath(input.subpath) : existing.subpath,
+        sparse_checkout: input.sparse_checkout ?? existing.sparse_checkout,
+        archive: input.archive ?? existing.archive,
+        auto_fetch_interval_minutes:
+          input.auto_fetch_interval_minutes !== undefined
+            ? (input.auto_fetch_interval_minutes ?? undefined)
+            : existing.auto_fetch_interval_minutes,
       };
+      if (updated.auto_fetch_interval_minutes === undefined) {
+        delete updated.auto_fetch_interval_minutes;
+      }
+      if (newStorageType === "archive") {
+        ({ archive: updated.archive, repoPath: updated.repo_path } = parseArchive(
+          updated.archive,
+          updated.identifier,
+        ));
+      } else {
+        delete updated.archive;
+      }
+      if (!updated.subpath || !updated.sparse_checkout) {
+        // Sparse checkout only makes sense with a subpath
+        delete updated.sparse_checkout;
+      }
+      if (!updated.subpath) {
+        delete updated.subpath;
+      }
+      if (updated.subpath !== existing.subpath) {
+        // The summary describes the old directory; it is regenerated on the next query
+        delete updated.kctx_helper;
+      }
 
       // If storage type changed, delete from old location and write to new location
       if (needsMove) {
@@ -303,7 +520,7 @@ export const packagesRouter = {
       await writePackageConfig(newDir, updated);
       return {
         ...updated,
-        cloneStatus: cloneStatus.get(updated.identifier) ?? "completed",
+        cloneStatus: await getCloneStatus(updated.identifier),
       };
     }),
 
@@ -318,18 +535,59 @@ export const packagesRouter = {
         });
       }
 
+      await cancelPackageJobs(input.identifier);
       await deletePackageConfig(found.dir, input.identifier);
-      cloneStatus.delete(input.identifier);
+      // Clones are left for garbage collection (other packages may share them), but
+      // an archive's unpacked versions are removed with the last package using them
+      await removeUnusedArchive(found.config);
       return { success: true };
     }),
 
   getCloneStatus: publicProcedure
     .input(z.object({ identifier: z.string() }))
     .handler(async ({ input }) => {
-      const status = cloneStatus.get(input.identifier) ?? "completed";
+      const status = await getCloneStatus(input.identifier);
       return { status };
     }),
 
+  // Live progress of clones: the clones queued or running when subscribing, then
+  // every update (git's stage, objects and bytes received) until the client disconnects
+  watchClones: publicProcedure
+    .input(z.object({ identifier: z.string().optional() }).optional())
+    .output(
+      eventIterator(
+        z.object({
+          identifier: z.string(),
+          jobId: z.string(),
+          status: z.enum(["pending", "cloning", "completed", "error"]),
+          progress: z
+            .object({
+              stage: z.string(),
+              percent: z.number().optional(),
+              processed: z.number().optional(),
+              total: z.number().optional(),
+              bytes: z.number().optional(),
+              bytesPerSecond: z.number().optional(),
+            })
+            .optional(),
+          error: z.string().optional(),
+          updatedAt: z.string(),
+        }),
+      ),
+    )
+    .handler(async function* ({ input, signal }) {
+      for await (const job of watchJobs({ type: "clone", identifier: input?.identifier }, signal)) {
+        yield {
+          identifier: job.identifier,
+          jobId: job.id,
+          status: toCloneStatus(job),
+          progress: job.progress,
+          error: job.error,
+          updatedAt: job.updatedAt,
+        };
+      }
+    }),
+
   getBranches: publicProcedure
     .input(z.object({ identifier: z.string() }))
     .handler(async ({ input }) => {
@@ -341,7 +599,7 @@ export const packagesRouter = {
       const packagesDir = getPackagesDir(pkg.storage_type);
       const repoPath = await ensureRepoAvailable(
         pkg.repo_path,
-        pkg.storage_type,
+        "cloned",
         pkg.urls?.git,
         packagesDir,
       );
@@ -352,6 +610,131 @@ export const packagesRouter = {
       }
     }),
 
+  getTags: publicProcedure
+    .input(
+      z.object({
+        identifier: z.string(),
+        sort: z.enum(["semver", "date"]).optional(),
+        fetch: z.boolean().optional(), // Fetch new tags from origin first
+      }),
+    )
+    .handler(async ({ input }) => {
+      const found = await findPackageConfig(input.identifier);
+      if (found?.config.storage_type === "archive") {
+        // Versions published to the registry
+        try {
+          return { tags: await listArchiveTags(found.config) };
+        } catch {
+          return { tags: [] };
+        }
+      }
+      if (!found || found.config.storage_type !== "cloned") {
+        return { tags: [] };
+      }
+      const pkg = found.config;
+      const packagesDir = getPackagesDir(pkg.storage_type);
+      const repoPath = await ensureRepoAvailable(
+        pkg.repo_path,
+        "cloned",
+        pkg.urls?.git,
+        packagesDir,
+      );
+      try {
+        return { tags: await listTags(repoPath, { sort: input.sort, fetch: input.fetch }) };
+      } catch {
+        return { tags: [] };
+      }
+    }),
+
+  search: publicProcedure
+    .input(
+      z.object({
+        identifier: z.string(),
+        projectIdentifier: z.string().optional(), // Search at the tag pinned by this project
+        pattern: z.string().min(1),
+        mode: z.enum(["literal", "regex"]).optional(),
+        caseSensitive: z.boolean().optional(),
+        path: z.string().optional(), // Glob, e.g. "src/**/*.ts"
+        maxResults: z.number().int().min(1).max(500).optional(),
+        contextLines: z.number().int().min(0).max(10).optional(),
+      }),
+    )
+    .handler(async ({ input }) => {
+      const resolved = await resolveDependencyRepo(
+        input.identifier,
+        input.projectIdentifier,
+      );
+      if (!resolved) {
+        throw new ORPCError("NOT_FOUND", {
+          message: `Package with identifier "${input.identifier}" not found`,
+        });
+      }
+      await recordPackageAccess(resolved.packageConfig);
+      try {
+        const result = await searchRepository(resolved.repoPath, input.pattern, {
+          mode: input.mode,
+          caseSensitive: input.caseSensitive,
+          path: input.path,
+          maxResults: input.maxResults,
+          contextLines: input.contextLines,
+        });
+        return { tag: resolved.tag, tagSpec: resolved.tagSpec, ...result };
+      } catch (error) {
+        throw new ORPCError("INTERNAL_SERVER_ERROR", {
+          message: error instanceof Error ? error.message : "Failed to search package",
+        });
+      } finally {
+        resolved.release();
+      }
+    }),
+
+  compareVersions: publicProcedure
+    .input(
+      z.object({
+        identifier: z.string(),
+        from: z.string().min(1),
+        to: z.string().min(1),
+        path: z.string().optional(), // Directory or glob to limit the comparison to
+        explain: z.boolean().optional(), // Also ask OpenCode to explain the breaking changes
+        focus: z.string().optional(),
+      }),
+    )
+    .handler(async ({ input, signal }) => {
+      const located = await locateDependencyRepo(input.identifier);
+      if (!located) {
+        throw new ORPCError("NOT_FOUND", {
+          message: `Package with identifier "${input.identifier}" not found`,
+        });
+      }
+      if (located.packageConfig.storage_type === "archive") {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Comparing versions needs git history; archive packages have none",
+        });
+      }
+      try {
+        const comparison = await compareRefs(located.repoPath, input.from, input.to, {
+          path: input.path,
+          subpath: located.packageConfig.subpath,
+        });
+        if (!input.explain) {
+          return comparison;
+        }
+        const explanation = await explainVersionComparison(located, comparison, {
+          focus: input.focus,
+          signal,
+        });
+        return {
+          ...comparison,
+          explanation: explanation.response,
+          sessionId: explanation.sessionId,
+        };
+      } catch (error) {
+        throw new ORPCError("INTERNAL_SERVER_ERROR", {
+          message: error instanceof Error ? error.message : "Failed to compare versions",
+        });
+      }
+    }),
+
   getAvailableModels: publicProcedure.handler(async () => {
     const configPath = env.OPENCODE_CONFIG_PATH;
     const config = await readOpencodeConfig(configPath);
@@ -458,45 +841,33 @@ export const packagesRouter = {
   }),
 
   updateAll: publicProcedure.handler(async () => {
-    const results: Array<{
-      identifier: string;
-      display_name: string;
-      success: boolean;
-      error?: string;
-    }> = [];
-
-    const clonedPackages = await listPackageConfigs(env.PACKAGES_DIR);
-
-    // Track pulled repos to avoid pulling the same repo multiple times
-    const pulledRepos = new Set<string>();
+    const clonedPackages = (await listPackageConfigs(env.PACKAGES_DIR)).filter(
+      (pkg) => pkg.urls?.git && pkg.repo_path,
+    );
 
+    // One pull job per repo: packages sharing a clone share its result
+    const jobsByRepo = new Map<string, Promise<Job>>();
     for (const pkg of clonedPackages) {
-      if (!pkg.urls?.git || !pkg.repo_path) continue;
-
-      const repoIdentifier = getRepoIdentifierFromUrl(pkg.urls.git);
-
-      // Skip if we already pulled this repo
-      if (pulledRepos.has(repoIdentifier)) {
-        results.push({
-          identifier: pkg.identifier,
-          display_name: pkg.display_name,
-          success: true,
-        });
-        continue;
+      const repoIdentifier = getRepoIdentifierFromUrl(pkg.urls.git!);
+      if (!jobsByRepo.has(repoIdentifier)) {
+        jobsByRepo.set(
+          repoIdentifier,
+          enqueueJob("pull", pkg.identifier).then((job) => waitForJob(job.id)),
+        );
       }
-
-      const pullResult = await pullRepository(pkg.repo_path);
-      results.push({
-        identifier: pkg.identifier,
-        display_name: pkg.display_name,
-        success: pullResult.success,
-        error: pullResult.error,
-      });
-
-      pulledRepos.add(repoIdentifier);
     }
 
-    return results;
+    return Promise.all(
+      clonedPackages.map(async (pkg) => {
+        const job = await jobsByRepo.get(getRepoIdentifierFromUrl(pkg.urls.git!))!;
+        return {
+          identifier: pkg.identifier,
+          display_name: pkg.display_name,
+          success: job.state === "succeeded",
+          error: job.error,
+        };
+      }),
+    );
   }),
 
   chat: publicProcedure
@@ -518,31 +889,18 @@ export const packagesRouter = {
         }),
       ),
     )
-    .handler(async function* ({ input }) {
-      // Get package config from either directory
-      const found = await findPackageConfig(input.identifier);
-      if (!found) {
+    .handler(async function* ({ input, signal }) {
+      // Resolve the package to its repo (a worktree of default_tag for cloned repos)
+      const resolved = await resolveDependencyRepo(input.identifier);
+      if (!resolved) {
         throw new ORPCError({
           code: "NOT_FOUND",
           message: `Package with identifier "${input.identifier}" not found`,
         });
       }
 
-      const pkg = found.config;
-
-      // Ensure repo is available (cloned or local)
-      const packagesDir = getPackagesDir(pkg.storage_type);
-      const repoPath = await ensureRepoAvailable(
-        pkg.repo_path,
-        pkg.storage_type,
-        pkg.urls.git,
-        packagesDir,
-      );
-
-      // Only checkout tag for cloned repos
-      if (pkg.storage_type === "cloned" && pkg.default_tag) {
-        await checkoutTag(repoPath, pkg.default_tag);
-      }
+      const { packageConfig: pkg, repoPath, release } = resolved;
+      await recordPackageAccess(pkg);
 
       // Parse model if provided
       let model: OpencodeModel | undefined;
@@ -554,6 +912,7 @@ export const packagesRouter = {
             modelID: parts.slice(1).join("/"), // Handle models with slashes in ID
           };
         } else {
+          release();
           throw new ORPCError({
             code: "BAD_REQUEST",
             message: `Invalid model format. Expected "providerId/modelId", got "${input.model}"`,
@@ -569,6 +928,8 @@ export const packagesRouter = {
           model,
           input.conversationId,
           pkg.kctx_helper ?? "",
+          // Stops the OpenCode session when the client disconnects
+          signal,
         )) {
           yield chunk;
         }
@@ -577,6 +938,8 @@ export const packagesRouter = {
           code: "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to query package",
         });
+      } finally {
+        release();
       }
     }),
 
@@ -590,25 +953,8 @@ export const packagesRouter = {
           message: `Package with identifier "${input.identifier}" not found`,
         });
       }
-      const pkg = found.config;
-      const packagesDir = getPackagesDir(pkg.storage_type);
-      const repoPath = await ensureRepoAvailable(
-        pkg.repo_path,
-        pkg.storage_type,
-        pkg.urls?.git,
-        packagesDir,
-      );
-      if (pkg.storage_type === "cloned" && pkg.default_tag) {
-        await checkoutTag(repoPath, pkg.default_tag);
-      }
-      try {
-        await regenerateKctxHelper(packagesDir, input.identifier, repoPath);
-        return { success: true };
-      } catch (error) {
-        throw new ORPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: error instanceof Error ? error.message : "Failed to regenerate kctx_helper",
-        });
-      }
+      // Runs in the background; progress and errors show up in the jobs panel
+      const job = await enqueueJob("kctx_helper", input.identifier, { force: true });
+      return { success: true, jobId: job.id };
     }),
 };
@@ -1,3 +1,4 @@
+import { resolve, sep } from "node:path";
 import { z } from "zod";
 import { ORPCError } from "@orpc/server";
 import { publicProcedure } from "../index";
@@ -9,6 +10,9 @@ import {
   writeProjectConfig,
   deleteProjectConfig,
   discoverGitRepositories,
+  findManifestFiles,
+  proposeProjectDependencies,
+  getDependencyDriftReport,
   type ProjectConfig,
   type ProjectDependency,
 } from "@kinetic-context/server-utils";
@@ -71,6 +75,11 @@ const UpdateDependenciesInputSchema = z.object({
     .optional(),
 });
 
+const DetectDependenciesInputSchema = z.object({
+  projectIdentifier: z.string().min(1),
+  path: z.string().min(1), // Repository path from scanProjects
+});
+
 export const projectsRouter = {
   list: publicProcedure.handler(async () => {
     const projects = await listProjectConfigs(env.PROJECTS_DIR);
@@ -90,6 +99,19 @@ export const projectsRouter = {
       return project;
     }),
 
+  // Installed vs configured vs newest version of each dependency
+  driftReport: publicProcedure
+    .input(z.object({ identifier: z.string() }))
+    .handler(async ({ input }) => {
+      const project = await readProjectConfig(env.PROJECTS_DIR, input.identifier);
+      if (!project) {
+        throw new ORPCError("NOT_FOUND", {
+          message: `Project with identifier "${input.identifier}" not found`,
+        });
+      }
+      return await getDependencyDriftReport(project);
+    }),
+
   create: publicProcedure
     .input(CreateProjectInputSchema)
     .handler(async ({ input }) => {
@@ -303,6 +325,9 @@ export const projectsRouter = {
         
         // Check if a project with this identifier already exists
         const existing = await readProjectConfig(env.PROJECTS_DIR, suggestedIdentifier);
+
+        // Manifests/lockfiles dependencies can be imported from
+        const manifests = await findManifestFiles(repo.path);
         
         return {
           path: repo.path,
@@ -310,10 +335,34 @@ export const projectsRouter = {
           suggestedIdentifier,
           suggestedDisplayName,
           alreadyExists: !!existing,
+          manifests,
         };
       })
     );
     
     return suggestions;
   }),
+
+  // Propose dependencies from a scanned repository's manifests and lockfiles.
+  // Nothing is written: the client applies the accepted ones via updateDependencies.
+  detectDependencies: publicProcedure
+    .input(DetectDependenciesInputSchema)
+    .handler(async ({ input }) => {
+      const projectsRoot = resolve(env.PROJECTS_DIR);
+      const repoPath = resolve(input.path);
+      if (!repoPath.startsWith(projectsRoot + sep)) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Path must be inside the projects directory",
+        });
+      }
+
+      const project = await readProjectConfig(
+        env.PROJECTS_DIR,
+        input.projectIdentifier
+      );
+      return await proposeProjectDependencies(
+        repoPath,
+        project?.dependencies ?? []
+      );
+    }),
 };
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { publicProcedure } from "../index";
+import {
+  getDiskUsageReport,
+  collectOrphanedClones,
+  planCloneEviction,
+  evictColdClones,
+} from "@kinetic-context/server-utils";
+
+export const storageRouter = {
+  // Disk usage per clone and worktree; orphaned clones are the GC preview
+  usage: publicProcedure.handler(async () => {
+    return getDiskUsageReport();
+  }),
+
+  // Delete the orphaned clones confirmed from the preview (by id); anything a package
+  // or job started using since is skipped
+  collectGarbage: publicProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .handler(async ({ input }) => {
+      return collectOrphanedClones(input.ids);
+    }),
+
+  // Clones the eviction policy (evict_after_days, disk_budget_gb) would evict now
+  evictionPlan: publicProcedure.handler(async () => {
+    return planCloneEviction();
+  }),
+
+  // Apply the eviction policy now instead of waiting for the hourly check
+  evict: publicProcedure.handler(async () => {
+    return evictColdClones();
+  }),
+};
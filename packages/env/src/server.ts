@@ -18,6 +18,12 @@ export const env = createEnv({
     OPENCODE_POLL_INTERVAL_MS: z.coerce.number().default(2000), // 2 seconds
     OPENCODE_MAX_POLL_ATTEMPTS: z.coerce.number().default(30), // 30 attempts = 60 seconds max polling
     OPENCODE_STREAM_HEARTBEAT_MS: z.coerce.number().default(30000), // 30 seconds
+    MCP_SESSION_IDLE_TIMEOUT_MS: z.coerce.number().default(1800000), // 30 minutes
+    MCP_QUERY_CONCURRENCY: z.coerce.number().int().min(1).default(3), // Parallel OpenCode queries per query_dependencies call
+    WORKTREE_IDLE_TIMEOUT_MS: z.coerce.number().default(600000), // 10 minutes
+    JOBS_PATH: z.string().default("/config/jobs.json"), // Persisted background jobs (clone, pull, reindex, kctx_helper)
+    JOBS_CONCURRENCY: z.coerce.number().int().min(1).default(2), // Background jobs running at once
+    CREDENTIALS_PATH: z.string().default("/config/credentials.json"), // Git credentials (tokens, SSH keys); kept out of package configs
   },
   runtimeEnv: process.env,
   emptyStringAsUndefined: true,
@@ -0,0 +1,863 @@
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join, posix } from "node:path";
+import { promisify } from "node:util";
+import { gunzip, inflateRaw } from "node:zlib";
+import { z } from "zod";
+import { env } from "@kinetic-context/env/server";
+import { readGlobalConfig, type PackageConfig } from "./config";
+import type { TagInfo } from "./git";
+import { logger } from "./logger";
+import { compareVersions, formatVersion, parseRange, parseVersion } from "./semver";
+
+const gunzipAsync = promisify(gunzip);
+const inflateRawAsync = promisify(inflateRaw);
+
+export type ArchiveSource = NonNullable<PackageConfig["archive"]>["source"];
+export type RegistrySource = Exclude<ArchiveSource, "file">;
+
+export const DEFAULT_REGISTRIES: Record<RegistrySource, string> = {
+  npm: "https://registry.npmjs.org",
+  pypi: "https://pypi.org",
+  crates: "https://crates.io",
+};
+
+// Unpacked archives live in a hidden directory of PACKAGES_DIR, so OpenCode can read
+// them like clones while package config scans and clone reports skip them
+const ARCHIVES_DIR = ".archives";
+// Registry metadata is refetched at most this often when resolving versions
+const METADATA_TTL_MS = 10 * 60 * 1000;
+const METADATA_TIMEOUT_MS = 30 * 1000;
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_DOWNLOAD_BYTES = 512 * 1024 * 1024;
+const MAX_UNPACKED_BYTES = 1024 * 1024 * 1024;
+// crates.io rejects requests without a User-Agent
+const USER_AGENT = "kinetic-context";
+
+// Registry package names ("zod", "@tanstack/ai", "typing_extensions") and versions
+// ("1.2.3", "2.0.0-beta.1+build", "1!2.0") become path segments
+const SAFE_NAME = /^(@?[A-Za-z0-9][\w.-]*\/)?[A-Za-z0-9][\w.-]*$/;
+const SAFE_VERSION = /^[A-Za-z0-9][\w.+!-]*$/;
+
+export interface ArchiveVersion {
+  version: string;
+  /** Download URL of the tarball or zip */
+  url: string;
+  /** ISO time the version was published, when the registry reports it */
+  publishedAt?: string;
+  /** Yanked versions are only used when asked for exactly */
+  yanked?: boolean;
+  /** Digest the download must match */
+  integrity?: { algorithm: "sha1" | "sha256" | "sha512"; digest: string; encoding: "hex" | "base64" };
+}
+
+interface RegistryPackage {
+  versions: ArchiveVersion[];
+  /** npm dist-tags, e.g. { latest: "3.23.8", next: "4.0.0-beta.1" } */
+  tags: Record<string, string>;
+  latest?: string;
+}
+
+interface ArchiveEntry {
+  /** Path inside the archive, "/"-separated and checked not to leave it */
+  path: string;
+  type: "file" | "directory";
+  mode: number;
+  read: () => Promise<Buffer>;
+}
+
+const metadataCache = new Map<string, { fetchedAt: number; data: Promise<RegistryPackage> }>();
+// Unpacks in progress by target directory, so concurrent queries download once
+const unpacking = new Map<string, Promise<void>>();
+
+function getArchiveConfig(config: PackageConfig): NonNullable<PackageConfig["archive"]> {
+  if (config.storage_type !== "archive" || !config.archive) {
+    throw new Error(`Package "${config.identifier}" is not an archive package`);
+  }
+  return config.archive;
+}
+
+/**
+ * Name of an archive package in its registry (the identifier unless `archive.name` is set).
+ */
+export function getArchivePackageName(config: PackageConfig): string {
+  return config.archive?.name?.trim() || config.identifier;
+}
+
+/**
+ * Directory holding the unpacked versions of an archive package, one subdirectory
+ * per version: <packagesDir>/.archives/<source>/<name>. Used as its repo_path.
+ */
+export function getArchiveRoot(
+  packagesDir: string,
+  archive: NonNullable<PackageConfig["archive"]>,
+  identifier: string,
+): string {
+  const name = archive.name?.trim() || identifier;
+  if (!SAFE_NAME.test(name)) {
+    throw new Error(`Invalid package name "${name}"`);
+  }
+  return join(packagesDir, ARCHIVES_DIR, archive.source, ...name.split("/"));
+}
+
+async function getRegistryUrl(archive: NonNullable<PackageConfig["archive"]>): Promise<string> {
+  const source = archive.source as RegistrySource;
+  let url = archive.registry_url?.trim();
+  if (!url) {
+    const globalConfig = await readGlobalConfig(dirname(env.PACKAGES_DIR) || "/data");
+    url = globalConfig.registries?.[source]?.trim() || DEFAULT_REGISTRIES[source];
+  }
+  return url.replace(/\/+$/, "");
+}
+
+// Registry responses are untrusted: only the fields used below are checked, and registries
+// send null for many missing values
+const NpmPackageSchema = z.object({
+  versions: z
+    .record(
+      z.string(),
+      z.object({
+        dist: z
+          .object({
+            tarball: z.string().nullish(),
+            integrity: z.string().nullish(),
+            shasum: z.string().nullish(),
+          })
+          .nullish(),
+      }),
+    )
+    .nullish(),
+  // Unpublished packages have an object under "unpublished"
+  time: z.record(z.string(), z.string().optional().catch(undefined)).nullish(),
+  "dist-tags": z.record(z.string(), z.string()).nullish(),
+});
+
+const PypiFileSchema = z.object({
+  url: z.string().nullish(),
+  filename: z.string().nullish(),
+  packagetype: z.string().nullish(),
+  upload_time: z.string().nullish(),
+  upload_time_iso_8601: z.string().nullish(),
+  yanked: z.boolean().nullish(),
+  digests: z.object({ sha256: z.string().nullish() }).nullish(),
+});
+
+type PypiFile = z.infer<typeof PypiFileSchema>;
+
+const PypiPackageSchema = z.object({
+  info: z.object({ version: z.string().nullish() }).nullish(),
+  releases: z.record(z.string(), z.array(PypiFileSchema)).nullish(),
+});
+
+const CratesPackageSchema = z.object({
+  crate: z
+    .object({
+      max_stable_version: z.string().nullish(),
+      newest_version: z.string().nullish(),
+    })
+    .nullish(),
+  versions: z
+    .array(
+      z.object({
+        num: z.string(),
+        dl_path: z.string().nullish(),
+        created_at: z.string().nullish(),
+        yanked: z.boolean().nullish(),
+        checksum: z.string().nullish(),
+      }),
+    )
+    .nullish(),
+});
+
+async function fetchJson<T>(
+  url: string,
+  schema: z.ZodType<T>,
+  accept = "application/json",
+): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Accept: accept, "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(METADATA_TIMEOUT_MS),
+  });
+  if (response.status === 404) {
+    throw new Error(`Not found in the registry: ${url}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Registry request failed: ${url} returned ${response.status} ${response.statusText}`);
+  }
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Registry returned invalid JSON: ${url}`);
+  }
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `Unexpected registry response from ${url}: ${issue ? `${issue.path.join(".")}: ${issue.message}` : "invalid"}`,
+    );
+  }
+  return result.data;
+}
+
+// Subresource Integrity string, e.g. "sha512-<base64>" (the first hash if there are several)
+function parseIntegrity(sri: string | null | undefined): ArchiveVersion["integrity"] {
+  const match = sri ? /^(sha1|sha256|sha512)-(\S+)/.exec(sri.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+  return { algorithm: match[1] as "sha1" | "sha256" | "sha512", digest: match[2]!, encoding: "base64" };
+}
+
+async function fetchNpmPackage(registry: string, name: string): Promise<RegistryPackage> {
+  // Scoped names keep the "@" but escape the slash: @scope%2fname
+  const data = await fetchJson(
+    `${registry}/${name.replace("/", "%2f")}`,
+    NpmPackageSchema,
+    // Abbreviated metadata is much smaller and has everything needed here
+    "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8",
+  );
+  const versions: ArchiveVersion[] = [];
+  for (const [version, meta] of Object.entries(data.versions ?? {})) {
+    const dist = meta.dist;
+    if (!dist?.tarball) {
+      continue;
+    }
+    versions.push({
+      version,
+      url: dist.tarball,
+      publishedAt: data.time?.[version],
+      integrity:
+        parseIntegrity(dist.integrity) ??
+        (dist.shasum ? { algorithm: "sha1", digest: dist.shasum, encoding: "hex" } : undefined),
+    });
+  }
+  const tags = data["dist-tags"] ?? {};
+  return { versions, tags, latest: tags.latest };
+}
+
+/**
+ * File of a PyPI release to unpack: a pure-Python wheel has the code as installed,
+ * otherwise the source distribution, otherwise any wheel.
+ */
+function pickPythonFile(files: PypiFile[]): (PypiFile & { url: string }) | undefined {
+  const usable = files.filter(
+    (file): file is PypiFile & { url: string } =>
+      !!file.url && /\.(whl|tar\.gz|tgz|zip)$/.test(file.filename ?? file.url),
+  );
+  return (
+    usable.find((file) => /-none-any\.whl$/.test(file.filename ?? "")) ??
+    usable.find((file) => file.packagetype === "sdist") ??
+    usable.find((file) => file.packagetype === "bdist_wheel")
+  );
+}
+
+async function fetchPypiPackage(registry: string, name: string): Promise<RegistryPackage> {
+  const data = await fetchJson(`${registry}/pypi/${encodeURIComponent(name)}/json`, PypiPackageSchema);
+  const versions: ArchiveVersion[] = [];
+  for (const [version, files] of Object.entries(data.releases ?? {})) {
+    const file = pickPythonFile(files);
+    if (!file) {
+      continue;
+    }
+    versions.push({
+      version,
+      url: file.url,
+      publishedAt: file.upload_time_iso_8601 ?? file.upload_time ?? undefined,
+      yanked: files.every((candidate) => candidate.yanked),
+      integrity: file.digests?.sha256
+        ? { algorithm: "sha256", digest: file.digests.sha256, encoding: "hex" }
+        : undefined,
+    });
+  }
+  return { versions, tags: {}, latest: data.info?.version ?? undefined };
+}
+
+async function fetchCratesPackage(registry: string, name: string): Promise<RegistryPackage> {
+  const data = await fetchJson(
+    `${registry}/api/v1/crates/${encodeURIComponent(name)}`,
+    CratesPackageSchema,
+  );
+  const versions: ArchiveVersion[] = (data.versions ?? []).map((version) => {
+    const downloadPath =
+      version.dl_path ?? `/api/v1/crates/${encodeURIComponent(name)}/${version.num}/download`;
+    return {
+      version: version.num,
+      url: /^https?:\/\//.test(downloadPath) ? downloadPath : `${registry}${downloadPath}`,
+      publishedAt: version.created_at ?? undefined,
+      yanked: !!version.yanked,
+      integrity: version.checksum
+        ? { algorithm: "sha256", digest: version.checksum, encoding: "hex" }
+        : undefined,
+    };
+  });
+  return {
+    versions,
+    tags: {},
+    latest: data.crate?.max_stable_version ?? data.crate?.newest_version ?? undefined,
+  };
+}
+
+async function getRegistryPackage(config: PackageConfig): Promise<RegistryPackage> {
+  const archive = getArchiveConfig(config);
+  if (archive.source === "file") {
+    throw new Error(`Package "${config.identifier}" is a local archive, not a registry package`);
+  }
+  const registry = await getRegistryUrl(archive);
+  const name = getArchivePackageName(config);
+  const key = `${archive.source}:${registry}:${name}`;
+  const cached = metadataCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.data;
+  }
+
+  const fetchers = { npm: fetchNpmPackage, pypi: fetchPypiPackage, crates: fetchCratesPackage };
+  const data = fetchers[archive.source](registry, name);
+  metadataCache.set(key, { fetchedAt: Date.now(), data });
+  // Don't cache failures
+  data.catch(() => {
+    if (metadataCache.get(key)?.data === data) {
+      metadataCache.delete(key);
+    }
+  });
+  return data;
+}
+
+/**
+ * Versions of an archive package in its registry, highest first (versions that don't
+ * look like semver last). Local archives have a single version.
+ */
+export async function listArchiveVersions(config: PackageConfig): Promise<ArchiveVersion[]> {
+  const archive = getArchiveConfig(config);
+  if (archive.source === "file") {
+    return [{ version: getLocalArchiveVersion(config), url: archive.path ?? "" }];
+  }
+  const { versions } = await getRegistryPackage(config);
+  return versions
+    .map((entry) => ({ entry, parsed: parseVersion(entry.version) }))
+    .sort((a, b) =>
+      a.parsed && b.parsed
+        ? compareVersions(b.parsed, a.parsed)
+        : a.parsed
+          ? -1
+          : b.parsed
+            ? 1
+            : b.entry.version.localeCompare(a.entry.version),
+    )
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Registry versions in the shape of git tags, so tag pickers and list_dependency_tags
+ * work for archive packages. There is no commit behind a version.
+ */
+export async function listArchiveTags(config: PackageConfig): Promise<TagInfo[]> {
+  return (await listArchiveVersions(config)).map((entry) => {
+    const parsed = parseVersion(entry.version);
+    return {
+      name: entry.version,
+      commit: "",
+      date: entry.publishedAt ?? "",
+      annotated: false,
+      ...(parsed ? { version: formatVersion(parsed) } : {}),
+    };
+  });
+}
+
+// Local archives are labelled with their default_tag, or the file name without extension
+function getLocalArchiveVersion(config: PackageConfig): string {
+  const label = config.default_tag?.trim();
+  if (label && label !== "latest" && label !== "auto") {
+    return label;
+  }
+  return basename(config.archive?.path ?? "archive").replace(/\.(tar\.gz|tgz|tar|zip|crate|whl)$/i, "");
+}
+
+/**
+ * Resolve a version spec to a version of an archive package: an exact version, an
+ * npm dist-tag, "latest" (also for an empty spec or "auto") or a range like "^4.1"
+ * (optionally prefixed "name@^4.1"), which picks the highest matching version.
+ * Exact versions that are already unpacked resolve without asking the registry.
+ * Throws if no version matches.
+ */
+export async function resolveArchiveVersion(
+  config: PackageConfig,
+  spec?: string,
+): Promise<string> {
+  const archive = getArchiveConfig(config);
+  if (archive.source === "file") {
+    return getLocalArchiveVersion(config);
+  }
+  const name = getArchivePackageName(config);
+  let wanted = spec?.trim() || "latest";
+  if (wanted === "auto") {
+    wanted = "latest";
+  }
+  if (wanted.startsWith(`${name}@`)) {
+    wanted = wanted.slice(name.length + 1);
+  }
+  if (
+    SAFE_VERSION.test(wanted) &&
+    existsSync(join(getArchiveRoot(env.PACKAGES_DIR, archive, config.identifier), wanted))
+  ) {
+    return wanted;
+  }
+
+  const registryPackage = await getRegistryPackage(config);
+  const available = registryPackage.versions.filter((entry) => !entry.yanked);
+  if (registryPackage.versions.some((entry) => entry.version === wanted)) {
+    return wanted;
+  }
+  const tagged = registryPackage.tags[wanted];
+  if (tagged) {
+    return tagged;
+  }
+  if (wanted === "latest" && registryPackage.latest) {
+    return registryPackage.latest;
+  }
+
+  const range = parseRange(wanted);
+  let best: { version: string; parsed: NonNullable<ReturnType<typeof parseVersion>> } | undefined;
+  if (range) {
+    for (const entry of available) {
+      const parsed = parseVersion(entry.version);
+      if (parsed && range(parsed) && (!best || compareVersions(parsed, best.parsed) > 0)) {
+        best = { version: entry.version, parsed };
+      }
+    }
+  }
+  if (!best) {
+    throw new Error(`No version of ${name} in the ${archive.source} registry matches "${wanted}"`);
+  }
+  return best.version;
+}
+
+/**
+ * Make sure a version of an archive package is unpacked and return its directory:
+ * resolves the spec (see resolveArchiveVersion), downloads the tarball or zip from the
+ * registry (or reads the local archive), verifies its digest and unpacks it into
+ * <repo_path>/<version>. A single top-level directory ("package/", "name-1.2.3/") is
+ * stripped. Registry versions are unpacked once and kept; a local archive that changed
+ * replaces its previous unpacked copy.
+ */
+export async function ensureArchiveUnpacked(
+  config: PackageConfig,
+  spec?: string,
+): Promise<{ path: string; version: string }> {
+  const archive = getArchiveConfig(config);
+  const root = getArchiveRoot(env.PACKAGES_DIR, archive, config.identifier);
+  const version = await resolveArchiveVersion(config, spec);
+
+  let targetDir: string;
+  let load: () => Promise<Buffer>;
+  if (archive.source === "file") {
+    if (!archive.path) {
+      throw new Error(`Archive path is required for local archives (${config.identifier})`);
+    }
+    const archivePath = archive.path;
+    const stats = await stat(archivePath).catch(() => {
+      throw new Error(`Archive does not exist: ${archivePath}. Please verify the path is correct.`);
+    });
+    // Unpacked again when the file changes
+    const fingerprint = createHash("sha256")
+      .update(`${archivePath}:${stats.size}:${stats.mtimeMs}`)
+      .digest("hex")
+      .slice(0, 12);
+    targetDir = join(root, fingerprint);
+    load = () => readFile(archivePath);
+  } else {
+    if (!SAFE_VERSION.test(version)) {
+      throw new Error(`Invalid version "${version}"`);
+    }
+    targetDir = join(root, version);
+    load = async () => {
+      const entry = (await getRegistryPackage(config)).versions.find(
+        (candidate) => candidate.version === version,
+      );
+      if (!entry) {
+        throw new Error(`Version ${version} of ${getArchivePackageName(config)} not found in the registry`);
+      }
+      return downloadArchive(entry);
+    };
+  }
+
+  if (!existsSync(targetDir)) {
+    let pending = unpacking.get(targetDir);
+    if (!pending) {
+      pending = (async () => {
+        logger.log("[archive]", `Unpacking ${config.identifier}@${version}`);
+        const count = await unpackArchive(await load(), targetDir);
+        logger.log("[archive]", `Unpacked ${count} files of ${config.identifier}@${version} into ${targetDir}`);
+        if (archive.source === "file") {
+          await removeStaleUnpacks(root, targetDir);
+        }
+      })().finally(() => {
+        unpacking.delete(targetDir);
+      });
+      unpacking.set(targetDir, pending);
+    }
+    await pending;
+  }
+  return { path: targetDir, version };
+}
+
+function isUnpacking(path: string): boolean {
+  return [...unpacking.keys()].some(
+    (target) =>
+      target === path || target.startsWith(`${path}/`) || path.startsWith(`${target}.partial-`),
+  );
+}
+
+/**
+ * Remove the copies of a local archive unpacked before it last changed (each one is in a
+ * directory named after the file's size and mtime), keeping `current`.
+ */
+async function removeStaleUnpacks(root: string, current: string): Promise<void> {
+  for (const entry of await readdir(root).catch(() => [])) {
+    const path = join(root, entry);
+    if (path === current || isUnpacking(path)) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+    logger.log("[archive]", `Removed outdated unpacked archive ${path}`);
+  }
+}
+
+/**
+ * Archive roots (see getArchiveRoot) under packagesDir: <source>/<name> and
+ * <source>/@scope/<name> inside its .archives directory.
+ */
+export async function listArchiveRoots(packagesDir: string): Promise<string[]> {
+  const roots: string[] = [];
+  const listDirs = async (dir: string) =>
+    (await readdir(dir, { withFileTypes: true }).catch(() => []))
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  const archivesDir = join(packagesDir, ARCHIVES_DIR);
+  for (const source of await listDirs(archivesDir)) {
+    for (const name of await listDirs(join(archivesDir, source))) {
+      if (name.startsWith("@")) {
+        for (const scoped of await listDirs(join(archivesDir, source, name))) {
+          roots.push(join(archivesDir, source, name, scoped));
+        }
+      } else {
+        roots.push(join(archivesDir, source, name));
+      }
+    }
+  }
+  return roots;
+}
+
+/**
+ * Delete an archive root with every version unpacked into it. Throws while a version
+ * is being unpacked there.
+ */
+export async function removeArchiveRoot(root: string): Promise<void> {
+  if (isUnpacking(root)) {
+    throw new Error(`A version of ${root} is being unpacked`);
+  }
+  await rm(root, { recursive: true, force: true });
+}
+
+async function downloadArchive(entry: ArchiveVersion): Promise<Buffer> {
+  const response = await fetch(entry.url, {
+    headers: { "User-Agent": USER_AGENT },
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${entry.url} returned ${response.status} ${response.statusText}`);
+  }
+  const length = Number(response.headers.get("content-length") ?? 0);
+  if (length > MAX_DOWNLOAD_BYTES) {
+    throw new Error(`Archive is too large (${length} bytes): ${entry.url}`);
+  }
+  // content-length can be missing or wrong (chunked or compressed responses), so the
+  // limit is also enforced on the bytes actually received
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      received += value.byteLength;
+      if (received > MAX_DOWNLOAD_BYTES) {
+        await reader.cancel().catch(() => {});
+        throw new Error(`Archive is too large (over ${MAX_DOWNLOAD_BYTES} bytes): ${entry.url}`);
+      }
+      chunks.push(value);
+    }
+  }
+  const data = Buffer.concat(chunks, received);
+  if (entry.integrity) {
+    const digest = createHash(entry.integrity.algorithm).update(data).digest(entry.integrity.encoding);
+    if (digest !== entry.integrity.digest) {
+      throw new Error(`Checksum mismatch for ${entry.url}`);
+    }
+  }
+  return data;
+}
+
+/**
+ * Unpack a .tar.gz, .tar or .zip into targetDir (atomically: into a temporary sibling
+ * that is then renamed). Links and special files are skipped. Returns the file count.
+ */
+async function unpackArchive(data: Buffer, targetDir: string): Promise<number> {
+  const entries = await readArchiveEntries(data);
+
+  // Strip a single top-level directory shared by every entry
+  const roots = new Set(entries.map((entry) => entry.path.split("/")[0]));
+  const [root] = roots;
+  const strip =
+    roots.size === 1 &&
+    entries.every((entry) => entry.path.includes("/") || entry.type === "directory");
+
+  const tmpDir = `${targetDir}.partial-${randomUUID().slice(0, 8)}`;
+  let files = 0;
+  let bytes = 0;
+  try {
+    await mkdir(tmpDir, { recursive: true });
+    for (const entry of entries) {
+      const path = strip ? entry.path.slice(root!.length + 1) : entry.path;
+      if (!path) {
+        continue;
+      }
+      const target = join(tmpDir, ...path.split("/"));
+      if (entry.type === "directory") {
+        await mkdir(target, { recursive: true });
+        continue;
+      }
+      const content = await entry.read();
+      bytes += content.length;
+      if (bytes > MAX_UNPACKED_BYTES) {
+        throw new Error("Archive is too large to unpack");
+      }
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, content, { mode: entry.mode & 0o111 ? 0o755 : 0o644 });
+      files++;
+    }
+    await mkdir(dirname(targetDir), { recursive: true });
+    await rename(tmpDir, targetDir);
+  } catch (error) {
+    await rm(tmpDir, { recursive: true, force: true });
+    // Another server process may have unpacked the same version meanwhile
+    if (existsSync(targetDir)) {
+      return files;
+    }
+    throw error;
+  }
+  return files;
+}
+
+async function readArchiveEntries(data: Buffer): Promise<ArchiveEntry[]> {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = await gunzipAsync(data, { maxOutputLength: MAX_UNPACKED_BYTES });
+  }
+  if (data.length >= 4 && (data.readUInt32LE(0) === 0x04034b50 || data.readUInt32LE(0) === 0x06054b50)) {
+    return readZip(data);
+  }
+  if (data.length >= 512 && isTarHeader(data.subarray(0, 512))) {
+    return readTar(data);
+  }
+  throw new Error("Unsupported archive format; expected a .tar.gz, .tar or .zip");
+}
+
+/**
+ * Normalize an entry path, or null for paths that would leave the target directory.
+ */
+export function toSafeEntryPath(name: string): string | null {
+  const normalized = posix
+    .normalize(name.replace(/\\/g, "/"))
+    .replace(/^(\.\/)+/, "")
+    .replace(/\/+$/, "");
+  if (
+    !normalized ||
+    normalized === "." ||
+    normalized === ".." ||
+    normalized.startsWith("../") ||
+    normalized.startsWith("/") ||
+    /^[A-Za-z]:/.test(normalized)
+  ) {
+    return null;
+  }
+  return normalized;
+}
+
+export function readCString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? field.length : end);
+}
+
+// Octal, or base-256 when the high bit is set (GNU tar, for large sizes)
+export function readTarNumber(field: Buffer): number {
+  if (field[0]! & 0x80) {
+    let value = field[0]! & 0x7f;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i]!;
+    }
+    return value;
+  }
+  const text = readCString(field).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isTarHeader(header: Buffer): boolean {
+  if (header.toString("ascii", 257, 262) === "ustar") {
+    return true;
+  }
+  // Pre-POSIX tars have no magic; check the header checksum instead
+  let sum = 0;
+  for (let i = 0; i < 512; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum === readTarNumber(header.subarray(148, 156));
+}
+
+// PAX extended header records: "<length> <key>=<value>\n"
+export function readPaxRecords(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    const length = space === -1 ? NaN : Number(body.toString("ascii", offset, space));
+    if (!length) {
+      break;
+    }
+    const record = body.toString("utf8", space + 1, offset + length - 1);
+    const equals = record.indexOf("=");
+    if (equals > 0) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+function readTar(data: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  // Set by GNU long name and PAX headers for the entry that follows
+  let nextPath: string | undefined;
+  let nextSize: number | undefined;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const type = String.fromCharCode(header[156]!);
+    const isMeta = type === "L" || type === "K" || type === "x" || type === "g";
+    const size = isMeta ? readTarNumber(header.subarray(124, 136)) : (nextSize ?? readTarNumber(header.subarray(124, 136)));
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "L") {
+      nextPath = readCString(body);
+      continue;
+    }
+    if (type === "x") {
+      const records = readPaxRecords(body);
+      nextPath = records.path ?? nextPath;
+      nextSize = records.size !== undefined ? Number(records.size) : nextSize;
+      continue;
+    }
+    if (isMeta) {
+      continue;
+    }
+
+    let name = nextPath;
+    if (name === undefined) {
+      name = readCString(header.subarray(0, 100));
+      const prefix = header.toString("ascii", 257, 262) === "ustar" ? readCString(header.subarray(345, 500)) : "";
+      if (prefix) {
+        name = `${prefix}/${name}`;
+      }
+    }
+    nextPath = undefined;
+    nextSize = undefined;
+
+    const path = toSafeEntryPath(name);
+    const mode = readTarNumber(header.subarray(100, 108));
+    // Regular files ("0", "\0" in old tars, "7" contiguous) and directories; links are skipped
+    if (path && (type === "0" || type === "\0" || type === "7")) {
+      entries.push({ path, type: "file", mode, read: async () => body });
+    } else if (path && type === "5") {
+      entries.push({ path, type: "directory", mode, read: async () => Buffer.alloc(0) });
+    }
+  }
+  return entries;
+}
+
+function readZip(data: Buffer): ArchiveEntry[] {
+  // The end of central directory record is last, followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Invalid zip archive: end of central directory not found");
+  }
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const unixMode = data.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = data.readUInt32LE(offset + 42);
+    // Bit 11: the name is UTF-8, otherwise CP437 (read as latin1)
+    const name = data.toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const path = toSafeEntryPath(name);
+    if (!path || (unixMode & 0o170000) === 0o120000) {
+      // Unsafe path or symlink
+      continue;
+    }
+    if (name.endsWith("/")) {
+      entries.push({ path, type: "directory", mode: unixMode, read: async () => Buffer.alloc(0) });
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    entries.push({
+      path,
+      type: "file",
+      mode: unixMode,
+      read: async () => {
+        if (data.readUInt32LE(localOffset) !== 0x04034b50) {
+          throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+        }
+        const start =
+          localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+        const compressed = data.subarray(start, start + compressedSize);
+        if (method === 0) {
+          return compressed;
+        }
+        if (method === 8) {
+          return inflateRawAsync(compressed, { maxOutputLength: MAX_UNPACKED_BYTES });
+        }
+        throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+      },
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,314 @@
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import { mkdir, mkdtemp, open, rm, stat, writeFile, type FileHandle } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { z } from "zod";
+import { env } from "@kinetic-context/env/server";
+import { readCString, readPaxRecords, readTarNumber, toSafeEntryPath } from "./archive";
+import { listPackageConfigs, type PackageConfig } from "./config";
+import { createRepoBundle, getDefaultBranch, getRepoIdentifierFromUrl } from "./git";
+import { logger } from "./logger";
+
+// Layout of a package archive (an uncompressed tar; git bundles are compressed already):
+//   manifest.json                          package configs and which bundle holds each clone
+//   bundles/<platform>/<user>/<repo>.bundle  one git bundle per clone
+const MANIFEST_FILE = "manifest.json";
+const MANIFEST_FORMAT = "kinetic-context-packages";
+const BUNDLES_DIR = "bundles";
+
+const MAX_MANIFEST_BYTES = 16 * 1024 * 1024;
+// Largest size a ustar header holds (11 octal digits); larger files get a PAX size record
+const MAX_USTAR_SIZE = 0o77777777777;
+
+const BundleManifestSchema = z.object({
+  format: z.literal(MANIFEST_FORMAT),
+  version: z.literal(1),
+  exported_at: z.string(),
+  // Validated by the importer like any other package config
+  packages: z.array(z.object({ identifier: z.string() }).catchall(z.unknown())),
+  bundles: z.array(
+    z.object({
+      file: z.string(), // Path of the git bundle in the archive
+      repo: z.string(), // Clone's path under PACKAGES_DIR on the exporting machine
+      default_branch: z.string().optional(),
+      packages: z.array(z.string()), // Exported packages using the clone
+    }),
+  ),
+});
+
+type BundleManifest = z.infer<typeof BundleManifestSchema>;
+
+/**
+ * A package read from a package archive by readPackageBundle.
+ */
+export interface PackageBundleEntry {
+  /** Package config as exported, without repo_path and the fields the server writes */
+  config: BundleManifest["packages"][number];
+  /** The package's clone, if it was exported with its history */
+  bundle?: {
+    /** Extracted git bundle */
+    path: string;
+    /** Clone's path under PACKAGES_DIR on the exporting machine */
+    repo: string;
+    defaultBranch?: string;
+  };
+}
+
+export interface PackageBundleContents {
+  exportedAt: string;
+  packages: PackageBundleEntry[];
+}
+
+/**
+ * Cloned packages and registry archives can be moved to another machine; local
+ * packages and local archive files point at paths on this one.
+ */
+function isExportable(config: PackageConfig): boolean {
+  return (
+    (config.storage_type === "cloned" && !!config.urls.git) ||
+    (config.storage_type === "archive" && config.archive?.source !== "file")
+  );
+}
+
+function toExportedConfig(config: PackageConfig): BundleManifest["packages"][number] {
+  const { repo_path, last_updated, last_accessed_at, evicted_at, ...exported } = config;
+  return exported;
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function tarHeader(name: string, size: number, type: "0" | "x"): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, Math.min(size, MAX_USTAR_SIZE));
+  writeOctal(header, 136, 12, Math.floor(Date.now() / 1000));
+  header.write(type, 156, "ascii");
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) {
+    sum += byte;
+  }
+  header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+// "<length> <key>=<value>\n", where the length counts its own digits
+function paxRecord(key: string, value: string): string {
+  const line = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(line) + 1;
+  while (String(length).length + Buffer.byteLength(line) !== length) {
+    length = String(length).length + Buffer.byteLength(line);
+  }
+  return `${length}${line}`;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((512 - (size % 512)) % 512);
+}
+
+/**
+ * Write a regular file's headers, with a PAX header first when its name or size doesn't
+ * fit in ustar's fields. The caller writes the content and tarPadding(size).
+ */
+async function writeTarHeaders(handle: FileHandle, name: string, size: number): Promise<void> {
+  const records = [
+    ...(Buffer.byteLength(name) > 100 ? [paxRecord("path", name)] : []),
+    ...(size > MAX_USTAR_SIZE ? [paxRecord("size", String(size))] : []),
+  ];
+  if (records.length > 0) {
+    const body = Buffer.from(records.join(""));
+    await handle.write(Buffer.concat([tarHeader("PaxHeader", body.length, "x"), body, tarPadding(body.length)]));
+  }
+  await handle.write(tarHeader(name, size, "0"));
+}
+
+async function readRange(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new Error("The package archive is truncated");
+  }
+  return buffer;
+}
+
+/**
+ * Write the given packages to a tar archive for a machine that can't reach their
+ * repositories: their configs plus a git bundle of each clone, which packages from the
+ * same repository share. Cloned packages whose clone isn't on disk (evicted, or not
+ * cloned yet) are exported without history; local packages and archive files are left out.
+ */
+export async function createPackageBundle(identifiers: string[], archivePath: string): Promise<void> {
+  const selected = new Set(identifiers);
+  const configs = (await listPackageConfigs(env.PACKAGES_DIR)).filter(
+    (config) => selected.has(config.identifier) && isExportable(config),
+  );
+  if (configs.length === 0) {
+    throw new Error("None of the selected packages can be exported");
+  }
+
+  const clones = new Map<string, string[]>();
+  for (const config of configs) {
+    if (config.storage_type === "cloned" && config.urls.git) {
+      const repo = getRepoIdentifierFromUrl(config.urls.git);
+      clones.set(repo, [...(clones.get(repo) ?? []), config.identifier]);
+    }
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "kctx-export-"));
+  try {
+    const bundles: BundleManifest["bundles"] = [];
+    const bundlePaths = new Map<string, string>();
+    for (const [repo, packages] of clones) {
+      const repoPath = join(env.PACKAGES_DIR, repo);
+      if (!existsSync(join(repoPath, ".git"))) {
+        logger.log("[bundles]", `${repo} is not cloned; exporting ${packages.join(", ")} without history`);
+        continue;
+      }
+      const file = `${BUNDLES_DIR}/${repo}.bundle`;
+      const bundlePath = join(workDir, `${bundlePaths.size}.bundle`);
+      await createRepoBundle(repoPath, bundlePath);
+      bundlePaths.set(file, bundlePath);
+      bundles.push({ file, repo, default_branch: await getDefaultBranch(repoPath), packages });
+    }
+
+    const manifest: BundleManifest = {
+      format: MANIFEST_FORMAT,
+      version: 1,
+      exported_at: new Date().toISOString(),
+      packages: configs.map(toExportedConfig),
+      bundles,
+    };
+    const handle = await open(archivePath, "w");
+    try {
+      const manifestData = Buffer.from(JSON.stringify(manifest, null, 2));
+      await writeTarHeaders(handle, MANIFEST_FILE, manifestData.length);
+      await handle.write(Buffer.concat([manifestData, tarPadding(manifestData.length)]));
+      for (const [file, bundlePath] of bundlePaths) {
+        const { size } = await stat(bundlePath);
+        await writeTarHeaders(handle, file, size);
+        for await (const chunk of createReadStream(bundlePath)) {
+          await handle.write(chunk as Buffer);
+        }
+        await handle.write(tarPadding(size));
+      }
+      // End of archive: two empty blocks
+      await handle.write(Buffer.alloc(1024));
+    } finally {
+      await handle.close();
+    }
+    logger.log(
+      "[bundles]",
+      `Exported ${configs.length} package${configs.length === 1 ? "" : "s"} with ${bundles.length} clone${bundles.length === 1 ? "" : "s"} to ${archivePath}`,
+    );
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read a package archive written by createPackageBundle, extracting its git bundles
+ * into destDir. The package configs are returned as exported, for the caller to validate.
+ */
+export async function readPackageBundle(
+  archivePath: string,
+  destDir: string,
+): Promise<PackageBundleContents> {
+  let manifestData: Buffer | undefined;
+  const extracted = new Map<string, string>();
+
+  const handle = await open(archivePath, "r");
+  try {
+    const header = Buffer.alloc(512);
+    let offset = 0;
+    // Set by a PAX header for the entry that follows
+    let pax: Record<string, string> = {};
+    while (true) {
+      const { bytesRead } = await handle.read(header, 0, 512, offset);
+      if (bytesRead < 512 || header.every((byte) => byte === 0)) {
+        break;
+      }
+      if (header.toString("ascii", 257, 262) !== "ustar") {
+        throw new Error("Not a package archive exported by kinetic-context");
+      }
+      const type = String.fromCharCode(header[156]!);
+      const size =
+        type === "x" || pax.size === undefined
+          ? readTarNumber(header.subarray(124, 136))
+          : Number(pax.size);
+      const name = pax.path ?? readCString(header.subarray(0, 100));
+      const start = offset + 512;
+      offset = start + Math.ceil(size / 512) * 512;
+
+      if (type === "x") {
+        pax = readPaxRecords(await readRange(handle, start, size));
+        continue;
+      }
+      pax = {};
+      if (type !== "0") {
+        continue;
+      }
+      if (name === MANIFEST_FILE) {
+        if (size > MAX_MANIFEST_BYTES) {
+          throw new Error("The package archive's manifest is too large");
+        }
+        manifestData = await readRange(handle, start, size);
+        continue;
+      }
+      const path = toSafeEntryPath(name);
+      if (!path?.startsWith(`${BUNDLES_DIR}/`)) {
+        continue;
+      }
+      const target = join(destDir, ...path.split("/"));
+      await mkdir(dirname(target), { recursive: true });
+      if (size === 0) {
+        await writeFile(target, "");
+      } else {
+        await pipeline(
+          createReadStream(archivePath, { start, end: start + size - 1 }),
+          createWriteStream(target),
+        );
+      }
+      extracted.set(path, target);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (!manifestData) {
+    throw new Error(`Not a package archive exported by kinetic-context (no ${MANIFEST_FILE})`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(manifestData.toString("utf8"));
+  } catch {
+    throw new Error(`The package archive's ${MANIFEST_FILE} is not valid JSON`);
+  }
+  const result = BundleManifestSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Unsupported package archive: ${result.error.message}`);
+  }
+  const manifest = result.data;
+
+  return {
+    exportedAt: manifest.exported_at,
+    packages: manifest.packages.map((config) => {
+      const bundle = manifest.bundles.find((entry) => entry.packages.includes(config.identifier));
+      const path = bundle ? extracted.get(toSafeEntryPath(bundle.file) ?? "") : undefined;
+      return {
+        config,
+        ...(bundle && path
+          ? { bundle: { path, repo: bundle.repo, defaultBranch: bundle.default_branch } }
+          : {}),
+      };
+    }),
+  };
+}
@@ -0,0 +1,494 @@
+import { existsSync } from "node:fs";
+import { extname, join, posix } from "node:path";
+import type { SimpleGit } from "simple-git";
+import type { PackageConfig } from "./config";
+import { normalizeSubpath } from "./files";
+import { acquireWorktree, remoteGit } from "./git";
+import {
+  queryOpencode,
+  queryOpencodeWithProgress,
+  type OpencodeProgress,
+} from "./opencode";
+
+export interface ChangedFile {
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed" | "copied" | "type-changed";
+  /** Original path for renamed/copied files */
+  previousPath?: string;
+  /** Line counts; null for binary files */
+  additions: number | null;
+  deletions: number | null;
+}
+
+export interface CommitSummary {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+export interface ExportChange {
+  file: string;
+  name: string;
+  change: "added" | "removed" | "changed";
+  /** Declaration line in `from` (removed/changed) */
+  before?: string;
+  /** Declaration line in `to` (added/changed) */
+  after?: string;
+}
+
+export interface VersionComparison {
+  from: string;
+  to: string;
+  fromCommit: string;
+  toCommit: string;
+  totalFiles: number;
+  files: ChangedFile[];
+  filesTruncated: boolean;
+  totalCommits: number;
+  commits: CommitSummary[];
+  commitsTruncated: boolean;
+  exports: ExportChange[];
+  exportsTruncated: boolean;
+}
+
+export interface CompareOptions {
+  /** Limit the comparison to a directory or glob, e.g. "packages/zod" */
+  path?: string;
+  /** Package directory inside the repository (monorepos); `path` is then relative to it */
+  subpath?: string;
+  maxFiles?: number;
+  maxCommits?: number;
+  /** Maximum number of changed source files scanned for exported symbols */
+  maxExportFiles?: number;
+}
+
+const DEFAULT_MAX_FILES = 300;
+const DEFAULT_MAX_COMMITS = 100;
+const DEFAULT_MAX_EXPORT_FILES = 200;
+const MAX_EXPORT_CHANGES = 500;
+const MAX_SIGNATURE_LENGTH = 200;
+// Skip generated bundles and similar when scanning for exports
+const MAX_EXPORT_SCAN_BYTES = 512 * 1024;
+
+const STATUS_NAMES: Record<string, ChangedFile["status"]> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "type-changed",
+};
+
+/**
+ * Resolve a tag/branch/commit to a commit hash, fetching the tag from origin
+ * or falling back to the remote-tracking branch if it isn't available locally.
+ */
+async function resolveRef(git: SimpleGit, ref: string): Promise<string> {
+  const verify = async (candidate: string) =>
+    (await git.raw(["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`]).catch(() => "")).trim();
+
+  let commit = await verify(ref);
+  if (!commit) {
+    await git
+      .fetch(["origin", `refs/tags/${ref}:refs/tags/${ref}`])
+      .catch(() => {
+        // Not a tag on origin (or no origin): try other forms below
+      });
+    commit = (await verify(ref)) || (await verify(`origin/${ref}`));
+  }
+  if (!commit) {
+    throw new Error(`Unknown tag or branch "${ref}"`);
+  }
+  return commit;
+}
+
+function pathspec(path?: string): string[] {
+  return path ? ["--", `:(glob)${path.replace(/\/$/, "/**")}`] : [];
+}
+
+async function listChangedFiles(
+  git: SimpleGit,
+  from: string,
+  to: string,
+  path?: string,
+): Promise<ChangedFile[]> {
+  const [nameStatus, numstat] = await Promise.all([
+    git.raw(["diff", "--name-status", "-M", "-z", from, to, ...pathspec(path)]),
+    git.raw(["diff", "--numstat", "-M", "-z", from, to, ...pathspec(path)]),
+  ]);
+
+  // numstat -z: "adds\tdels\tpath\0", or "adds\tdels\t\0old\0new\0" for renames
+  const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+  const numTokens = numstat.split("\0");
+  for (let i = 0; i < numTokens.length; i++) {
+    const token = numTokens[i];
+    if (!token) continue;
+    const [adds, dels, file] = token.split("\t");
+    let target = file;
+    if (!target) {
+      target = numTokens[i + 2];
+      i += 2;
+    }
+    if (!target) continue;
+    counts.set(target, {
+      additions: adds === "-" ? null : Number(adds),
+      deletions: dels === "-" ? null : Number(dels),
+    });
+  }
+
+  // name-status -z: "S\0path\0", or "R100\0old\0new\0" for renames/copies
+  const files: ChangedFile[] = [];
+  const tokens = nameStatus.split("\0");
+  for (let i = 0; i < tokens.length; i++) {
+    const code = tokens[i];
+    if (!code) continue;
+    const status = STATUS_NAMES[code[0] ?? ""] ?? "modified";
+    let previousPath: string | undefined;
+    let file = tokens[++i];
+    if (status === "renamed" || status === "copied") {
+      previousPath = file;
+      file = tokens[++i];
+    }
+    if (!file) continue;
+    files.push({
+      path: file,
+      status,
+      ...(previousPath ? { previousPath } : {}),
+      ...(counts.get(file) ?? { additions: null, deletions: null }),
+    });
+  }
+  return files;
+}
+
+async function listCommits(
+  git: SimpleGit,
+  from: string,
+  to: string,
+  maxCommits: number,
+  path?: string,
+): Promise<{ total: number; commits: CommitSummary[] }> {
+  const [count, log] = await Promise.all([
+    git.raw(["rev-list", "--count", `${from}..${to}`, ...pathspec(path)]),
+    git.raw([
+      "log",
+      "--format=%H%x1f%an%x1f%aI%x1f%s%x1e",
+      `--max-count=${maxCommits}`,
+      `${from}..${to}`,
+      ...pathspec(path),
+    ]),
+  ]);
+
+  const commits: CommitSummary[] = [];
+  for (const record of log.split("\x1e")) {
+    const [hash, author, date, subject] = record.trim().split("\x1f");
+    if (!hash) continue;
+    commits.push({ hash, author: author ?? "", date: date ?? "", subject: subject ?? "" });
+  }
+  return { total: Number(count.trim()) || commits.length, commits };
+}
+
+type ExportExtractor = (source: string) => Map<string, string>;
+
+function signature(line: string): string {
+  const trimmed = line.trim().replace(/\s+/g, " ").replace(/\s*\{$/, "");
+  return trimmed.length > MAX_SIGNATURE_LENGTH
+    ? `${trimmed.slice(0, MAX_SIGNATURE_LENGTH)}…`
+    : trimmed;
+}
+
+/**
+ * Build an extractor from per-line patterns whose last capture group is the symbol name.
+ */
+function lineExtractor(patterns: RegExp[]): ExportExtractor {
+  return (source) => {
+    const symbols = new Map<string, string>();
+    for (const line of source.split("\n")) {
+      for (const pattern of patterns) {
+        const match = pattern.exec(line);
+        const name = match?.[match.length - 1];
+        if (name && !symbols.has(name)) {
+          symbols.set(name, signature(line));
+          break;
+        }
+      }
+    }
+    return symbols;
+  };
+}
+
+const extractJsExports: ExportExtractor = (source) => {
+  const symbols = lineExtractor([
+    /^export\s+(?:declare\s+)?(?:default\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/,
+    /^export\s+(default)\b/,
+  ])(source);
+  // export { a, b as c } [from "..."] and export * from "..."
+  for (const match of source.matchAll(/^export\s+(?:type\s+)?\{([^}]*)\}[^\n]*/gm)) {
+    for (const specifier of (match[1] ?? "").split(",")) {
+      const name = specifier.trim().split(/\s+as\s+/).pop()?.replace(/^type\s+/, "");
+      if (name && !symbols.has(name)) {
+        symbols.set(name, signature(match[0]));
+      }
+    }
+  }
+  for (const match of source.matchAll(/^export\s+\*\s+(?:as\s+(\w+)\s+)?from\s+["']([^"']+)["']/gm)) {
+    const name = match[1] ?? `* from "${match[2]}"`;
+    symbols.set(name, signature(match[0]));
+  }
+  return symbols;
+};
+
+const EXPORT_EXTRACTORS: Record<string, ExportExtractor> = {
+  ".ts": extractJsExports,
+  ".tsx": extractJsExports,
+  ".mts": extractJsExports,
+  ".cts": extractJsExports,
+  ".js": extractJsExports,
+  ".jsx": extractJsExports,
+  ".mjs": extractJsExports,
+  ".cjs": extractJsExports,
+  // Top-level, non-underscore definitions
+  ".py": lineExtractor([/^(?:async\s+)?def\s+([A-Za-z]\w*)/, /^class\s+([A-Za-z]\w*)/]),
+  // Capitalized identifiers are exported
+  ".go": lineExtractor([
+    /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/,
+    /^type\s+([A-Z]\w*)/,
+  ]),
+  ".rs": lineExtractor([
+    /^\s*pub\s+(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|type|const|static|mod|macro)\s+([A-Za-z_]\w*)/,
+  ]),
+};
+
+function isTestFile(path: string): boolean {
+  return /(^|\/)(__tests__|tests?)\//.test(path) || /[._-](test|spec)\.\w+$/.test(path);
+}
+
+async function readAtRef(git: SimpleGit, ref: string, path: string): Promise<string> {
+  const content = await git.raw(["show", `${ref}:${path}`]).catch(() => "");
+  return content.length > MAX_EXPORT_SCAN_BYTES ? "" : content;
+}
+
+/**
+ * Compare exported symbols of changed source files between two commits.
+ * Symbols are matched by name per file; "changed" means the declaration line differs.
+ */
+async function diffExports(
+  git: SimpleGit,
+  from: string,
+  to: string,
+  files: ChangedFile[],
+  maxFiles: number,
+): Promise<{ exports: ExportChange[]; truncated: boolean }> {
+  const candidates = files.filter(
+    (file) => EXPORT_EXTRACTORS[extname(file.path)] && !isTestFile(file.path),
+  );
+  let truncated = candidates.length > maxFiles;
+
+  const exports: ExportChange[] = [];
+  for (const file of candidates.slice(0, maxFiles)) {
+    const extract = EXPORT_EXTRACTORS[extname(file.path)]!;
+    const before =
+      file.status === "added"
+        ? new Map<string, string>()
+        : extract(await readAtRef(git, from, file.previousPath ?? file.path));
+    const after =
+      file.status === "deleted"
+        ? new Map<string, string>()
+        : extract(await readAtRef(git, to, file.path));
+
+    for (const [name, line] of before) {
+      const next = after.get(name);
+      if (next === undefined) {
+        exports.push({ file: file.path, name, change: "removed", before: line });
+      } else if (next !== line) {
+        exports.push({ file: file.path, name, change: "changed", before: line, after: next });
+      }
+    }
+    for (const [name, line] of after) {
+      if (!before.has(name)) {
+        exports.push({ file: file.path, name, change: "added", after: line });
+      }
+    }
+    if (exports.length >= MAX_EXPORT_CHANGES) {
+      truncated = true;
+      break;
+    }
+  }
+
+  return { exports: exports.slice(0, MAX_EXPORT_CHANGES), truncated };
+}
+
+/**
+ * Compare two tags/branches of a repository without checking either out:
+ * changed files with line counts, commits in from..to, and changed exported symbols
+ * (JS/TS, Python, Go and Rust, detected from declaration lines).
+ */
+export async function compareRefs(
+  repoPath: string,
+  from: string,
+  to: string,
+  options: CompareOptions = {},
+): Promise<VersionComparison> {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+  const maxExportFiles = options.maxExportFiles ?? DEFAULT_MAX_EXPORT_FILES;
+  const subpath = normalizeSubpath(options.subpath);
+  const path = subpath
+    ? options.path
+      ? posix.join(subpath, options.path)
+      : subpath
+    : options.path;
+
+  // resolveRef may fetch a tag from origin
+  const git = await remoteGit(repoPath);
+  try {
+    const fromCommit = await resolveRef(git, from);
+    const toCommit = await resolveRef(git, to);
+
+    const files = await listChangedFiles(git, fromCommit, toCommit, path);
+    const { total: totalCommits, commits } = await listCommits(
+      git,
+      fromCommit,
+      toCommit,
+      maxCommits,
+      path,
+    );
+    const { exports, truncated: exportsTruncated } = await diffExports(
+      git,
+      fromCommit,
+      toCommit,
+      files,
+      maxExportFiles,
+    );
+
+    return {
+      from,
+      to,
+      fromCommit,
+      toCommit,
+      totalFiles: files.length,
+      files: files.slice(0, maxFiles),
+      filesTruncated: files.length > maxFiles,
+      totalCommits,
+      commits,
+      commitsTruncated: totalCommits > commits.length,
+      exports,
+      exportsTruncated,
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to compare ${from}..${to} in ${repoPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+/**
+ * Build the OpenCode prompt asking for an explanation of the breaking changes.
+ * The working tree holds `to` (when checkedOut); `from` is reachable through git.
+ */
+export function buildVersionComparisonPrompt(
+  comparison: VersionComparison,
+  options: { checkedOut: boolean; focus?: string },
+): string {
+  const { from, to } = comparison;
+  const lines: string[] = [
+    `Explain what changed between version ${from} (${comparison.fromCommit.slice(0, 12)}) and version ${to} (${comparison.toCommit.slice(0, 12)}) of this repository.`,
+    options.checkedOut
+      ? `The working tree is checked out at ${to}. The older version is available through git, e.g. \`git diff ${from} ${to} -- <path>\` and \`git show ${from}:<path>\`.`
+      : `Both versions are available through git, e.g. \`git diff ${from} ${to} -- <path>\`, \`git show ${from}:<path>\` and \`git show ${to}:<path>\`.`,
+    "",
+    `Summary: ${comparison.totalFiles} files changed, ${comparison.totalCommits} commits.`,
+  ];
+
+  if (comparison.exports.length > 0) {
+    lines.push("", "Exported symbols that changed (from declaration lines):");
+    for (const change of comparison.exports.slice(0, 100)) {
+      const detail =
+        change.change === "changed"
+          ? `${change.before} -> ${change.after}`
+          : (change.after ?? change.before);
+      lines.push(`- ${change.change} ${change.name} (${change.file}): ${detail}`);
+    }
+  }
+
+  const busiest = [...comparison.files]
+    .sort(
+      (a, b) =>
+        (b.additions ?? 0) + (b.deletions ?? 0) - ((a.additions ?? 0) + (a.deletions ?? 0)),
+    )
+    .slice(0, 30);
+  if (busiest.length > 0) {
+    lines.push("", "Most changed files:");
+    for (const file of busiest) {
+      lines.push(
+        `- ${file.status} ${file.previousPath ? `${file.previousPath} -> ` : ""}${file.path} (+${file.additions ?? "?"}/-${file.deletions ?? "?"})`,
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    "Focus on breaking changes for users of the public API: removed or renamed exports, changed signatures and defaults, behavior changes. For each one, show how to migrate code written for the old version. Verify claims against the source using git rather than guessing.",
+  );
+  if (options.focus) {
+    lines.push("", `In particular: ${options.focus}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Ask OpenCode to explain a comparison. For cloned repos the agent works in a worktree of `to`;
+ * local repos are left as they are and the agent reads both versions through git.
+ */
+export async function explainVersionComparison(
+  dependency: { packageConfig: PackageConfig; repoPath: string },
+  comparison: VersionComparison,
+  options: {
+    focus?: string;
+    timeoutMs?: number;
+    onProgress?: (progress: OpencodeProgress) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<{ response: string; sessionId: string }> {
+  const { packageConfig } = dependency;
+  const checkedOut = packageConfig.storage_type === "cloned";
+  const subpath = normalizeSubpath(packageConfig.subpath);
+  const worktree = checkedOut
+    ? await acquireWorktree(dependency.repoPath, comparison.to, {
+        sparsePath: packageConfig.sparse_checkout ? subpath : undefined,
+      })
+    : null;
+  // Point the agent at the package's directory in monorepos
+  const root = worktree?.path ?? dependency.repoPath;
+  const repoPath = subpath && existsSync(join(root, subpath)) ? join(root, subpath) : root;
+
+  const prompt = buildVersionComparisonPrompt(comparison, {
+    checkedOut,
+    focus: options.focus,
+  });
+  const kctxHelper = packageConfig.kctx_helper ?? "";
+  try {
+    return await (options.onProgress
+      ? queryOpencodeWithProgress(
+          repoPath,
+          prompt,
+          undefined,
+          options.timeoutMs,
+          kctxHelper,
+          options.onProgress,
+          options.signal,
+        )
+      : queryOpencode(
+          repoPath,
+          prompt,
+          undefined,
+          options.timeoutMs,
+          kctxHelper,
+          options.signal,
+        ));
+  } finally {
+    worktree?.release();
+  }
+}
@@ -1,5 +1,7 @@
 import { readFile, writeFile, mkdir, unlink } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import { join, dirname } from "node:path";
+import { EventEmitter } from "node:events";
 import { z } from "zod";
 import { getRepoIdentifierFromUrl } from "./git";
 import { logger } from "./logger";
@@ -23,9 +25,9 @@ const PackageConfigSchema = z.object({
   identifier: z.string(),
   package_manager: z.string(),
   display_name: z.string(),
-  storage_type: z.enum(["cloned", "local"]),
-  repo_path: z.string(), // Absolute path to git repo
-  default_tag: z.string().optional(), // Only used for cloned repos
+  storage_type: z.enum(["cloned", "local", "archive"]),
+  repo_path: z.string(), // Absolute path to git repo; for archives, the directory holding the unpacked versions
+  default_tag: z.string().optional(), // Branch/tag of cloned repos; version or range of archives
   urls: z.object({
     website: z.string().optional(),
     docs: z.string().optional(),
@@ -33,7 +35,27 @@ const PackageConfigSchema = z.object({
     git: z.string().optional(), // Only required for cloned repos
     logo: z.string().optional(),
   }),
+  archive: z
+    .object({
+      source: z.enum(["npm", "pypi", "crates", "file"]),
+      name: z.string().optional(), // Name in the registry; defaults to the identifier
+      path: z.string().optional(), // Absolute path of a .tgz/.tar.gz/.tar/.zip (source "file")
+      registry_url: z.string().optional(), // Overrides the global registry URL for this package
+    })
+    .optional(), // Only for archive packages
   kctx_helper: z.string().optional(),
+  subpath: z.string().optional(), // Package directory inside the repo (monorepos); scopes OpenCode and the read tools
+  sparse_checkout: z.boolean().optional(), // Only check out subpath in worktrees (cloned repos)
+  auto_fetch_interval_minutes: z.number().int().min(0).optional(), // Overrides the global auto-fetch interval; 0 disables it
+  last_updated: z
+    .object({
+      at: z.string(), // ISO time of the last clone, pull or fetch of the repo
+      success: z.boolean(),
+      error: z.string().optional(),
+    })
+    .optional(), // Written by the job queue, not by users
+  last_accessed_at: z.string().optional(), // ISO time a query last read the package; written by the server
+  evicted_at: z.string().optional(), // Set while the clone is evicted to save disk; the next query re-clones it
 });
 
 const ProjectDependencySchema = z.object({
@@ -57,6 +79,35 @@ export type PackageConfig = z.infer<typeof PackageConfigSchema>;
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 export type ProjectDependency = z.infer<typeof ProjectDependencySchema>;
 
+export type ConfigChangeEvent = {
+  kind: "package" | "project";
+  identifier: string;
+  /** created and deleted change the set of configs; updated only their contents */
+  action: "created" | "updated" | "deleted";
+};
+
+// In-process notifications for package/project config writes, so long-lived
+// consumers (e.g. MCP resource subscriptions) don't have to watch the filesystem.
+const configEvents = new EventEmitter();
+configEvents.setMaxListeners(0);
+
+/**
+ * Subscribe to package/project config changes made through this module.
+ * Returns a function that removes the listener.
+ */
+export function onConfigChange(
+  listener: (event: ConfigChangeEvent) => void,
+): () => void {
+  configEvents.on("change", listener);
+  return () => {
+    configEvents.off("change", listener);
+  };
+}
+
+function emitConfigChange(event: ConfigChangeEvent): void {
+  configEvents.emit("change", event);
+}
+
 export async function readPackageConfig(
   packagesDir: string,
   identifier: string,
@@ -161,8 +212,8 @@ export async function listPackageConfigs(
         const stats = await stat(fullPath);
 
         if (stats.isDirectory()) {
-          // Skip git repositories (cloned repos)
-          if (await isGitRepository(fullPath)) {
+          // Skip git repositories (cloned repos) and hidden directories (worktrees, unpacked archives)
+          if (entry.startsWith(".") || (await isGitRepository(fullPath))) {
             continue;
           }
           // Recursively scan subdirectories (for scoped packages like @hookform/)
@@ -228,7 +279,29 @@ export async function writePackageConfig(
     await mkdir(nestedDir, { recursive: true });
   }
 
+  const action = existsSync(configPath) ? "updated" : "created";
   await writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+  emitConfigChange({ kind: "package", identifier: config.identifier, action });
+}
+
+/**
+ * Rewrite the config of every cloned package whose git URL maps to the given clone
+ * (packages from the same repository share one clone).
+ */
+export async function updateClonePackageConfigs(
+  packagesDir: string,
+  repoIdentifier: string,
+  update: (config: PackageConfig) => PackageConfig,
+): Promise<void> {
+  for (const config of await listPackageConfigs(packagesDir)) {
+    if (
+      config.storage_type === "cloned" &&
+      config.urls.git &&
+      getRepoIdentifierFromUrl(config.urls.git) === repoIdentifier
+    ) {
+      await writePackageConfig(packagesDir, update(config));
+    }
+  }
 }
 
 export async function writeProjectConfig(
@@ -237,7 +310,9 @@ export async function writeProjectConfig(
 ): Promise<void> {
   await mkdir(projectsDir, { recursive: true });
   const configPath = join(projectsDir, `${config.identifier}.json`);
+  const action = existsSync(configPath) ? "updated" : "created";
   await writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+  emitConfigChange({ kind: "project", identifier: config.identifier, action });
 }
 
 export async function deletePackageConfig(
@@ -247,6 +322,7 @@ export async function deletePackageConfig(
   const configPath = join(packagesDir, `${identifier}.json`);
   try {
     await unlink(configPath);
+    emitConfigChange({ kind: "package", identifier, action: "deleted" });
   } catch (error) {
     // File might not exist, ignore
   }
@@ -259,6 +335,7 @@ export async function deleteProjectConfig(
   const configPath = join(projectsDir, `${identifier}.json`);
   try {
     await unlink(configPath);
+    emitConfigChange({ kind: "project", identifier, action: "deleted" });
   } catch (error) {
     // File might not exist, ignore
   }
@@ -486,6 +563,20 @@ export async function writeOpencodeConfig(
 const GlobalConfigSchema = z.object({
   default_packages_dir: z.string().default("/data/packages"),
   default_agent_prompt: z.string().optional(),
+  // How often cloned packages that follow a branch are fetched and pulled; 0 (the default) disables it
+  auto_fetch_interval_minutes: z.number().int().min(0).optional(),
+  // Clones none of whose packages were queried for this many days are evicted; 0 (the default) disables it
+  evict_after_days: z.number().int().min(0).optional(),
+  // Least recently queried clones are evicted while clones use more than this; 0 (the default) disables it
+  disk_budget_gb: z.number().min(0).optional(),
+  // Base URLs archive packages are downloaded from (e.g. a local mirror); unset ones use the public registries
+  registries: z
+    .object({
+      npm: z.string().optional(),
+      pypi: z.string().optional(),
+      crates: z.string().optional(),
+    })
+    .optional(),
 });
 
 export type GlobalConfig = z.infer<typeof GlobalConfigSchema>;
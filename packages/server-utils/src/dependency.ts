@@ -0,0 +1,327 @@
+import { env } from "@kinetic-context/env/server";
+import {
+  readPackageConfig,
+  readProjectConfig,
+  updateClonePackageConfigs,
+  writePackageConfig,
+  type PackageConfig,
+} from "./config";
+import simpleGit from "simple-git";
+import { join } from "node:path";
+import { ensureArchiveUnpacked } from "./archive";
+import { normalizeSubpath, resolveRepoPath } from "./files";
+import {
+  acquireWorktree,
+  ensureRepoAvailable,
+  getRepoIdentifierFromUrl,
+  listTags,
+  type TagInfo,
+} from "./git";
+import { logger } from "./logger";
+import { parseRange, parseVersion } from "./semver";
+
+export interface ResolvedDependency {
+  packageConfig: PackageConfig;
+  /** Directory holding the package config (PACKAGES_DIR or LOCAL_PACKAGES_DIR) */
+  packagesDir: string;
+  /**
+   * Directory to read from: for cloned repos, a worktree with `tag` checked out; for
+   * archives, the unpacked version; the package's `subpath` inside it for monorepo packages
+   */
+  repoPath: string;
+  /** Tag/branch that was checked out (cloned repos), or the archive version */
+  tag?: string;
+  /** Version range the tag was resolved from, when the configured tag is a range */
+  tagSpec?: string;
+  /** Call once done with repoPath so the worktree can be cleaned up (no-op for local repos) */
+  release: () => void;
+}
+
+// Access times only need to be accurate to well under a day for eviction, so a busy
+// package's config is not rewritten on every query
+const ACCESS_RECORD_INTERVAL_MS = 15 * 60 * 1000;
+
+// Refresh tags from origin at most this often when resolving ranges
+const RANGE_FETCH_INTERVAL_MS = 10 * 60 * 1000;
+const lastRangeFetch = new Map<string, number>();
+
+/**
+ * Find a package config in either directory (cloned first, then local).
+ */
+export async function findPackageConfig(
+  identifier: string,
+): Promise<{ config: PackageConfig; dir: string } | null> {
+  let config = await readPackageConfig(env.PACKAGES_DIR, identifier, true);
+  if (config) {
+    return { config, dir: env.PACKAGES_DIR };
+  }
+
+  config = await readPackageConfig(env.LOCAL_PACKAGES_DIR, identifier, true);
+  if (config) {
+    return { config, dir: env.LOCAL_PACKAGES_DIR };
+  }
+
+  return null;
+}
+
+/**
+ * Determine which tag to use for a dependency: the project's pinned tag if the
+ * project lists the dependency with one, otherwise the package's default_tag.
+ */
+export async function resolveDependencyTag(
+  packageConfig: PackageConfig,
+  projectIdentifier?: string,
+): Promise<string | undefined> {
+  let tag = packageConfig.default_tag;
+  if (projectIdentifier) {
+    const project = await readProjectConfig(env.PROJECTS_DIR, projectIdentifier);
+    if (project) {
+      const dep = project.dependencies.find(
+        (d) => d.identifier === packageConfig.identifier,
+      );
+      if (dep?.tag) {
+        tag = dep.tag;
+      }
+    }
+  }
+  return tag;
+}
+
+/**
+ * Resolve a configured tag to a git ref. A tag or branch that exists is used as is;
+ * otherwise a version range ("^4.1", "~2.3.0", "latest release", optionally prefixed
+ * like "zod@^3.22") resolves to the highest matching tag. Tags named after the package
+ * ("<identifier>@1.2.3") are tried before plain ones ("v1.2.3"), so ranges work in monorepos. Returns the spec
+ * unchanged if it is not a range, and null if no tag satisfies the range.
+ */
+export async function resolveTagSpec(
+  repoPath: string,
+  spec: string,
+  packageIdentifier?: string,
+): Promise<string | null> {
+  const git = simpleGit(repoPath);
+  // With --quiet a missing ref prints nothing (simple-git doesn't reject then)
+  const exists = async (ref: string) =>
+    git
+      .raw(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])
+      .then((output) => output.trim().length > 0)
+      .catch(() => false);
+  if ((await exists(spec)) || (await exists(`origin/${spec}`))) {
+    return spec;
+  }
+
+  // "pkg@^1.2" / "@scope/pkg@^1.2": only tags starting with "pkg@"
+  let prefix: string | undefined;
+  let range = parseRange(spec);
+  const at = spec.lastIndexOf("@");
+  if (!range && at > 0) {
+    prefix = spec.slice(0, at + 1);
+    range = parseRange(spec.slice(at + 1));
+  }
+  if (!range) {
+    return spec;
+  }
+
+  const lastFetch = lastRangeFetch.get(repoPath) ?? 0;
+  const fetch = Date.now() - lastFetch > RANGE_FETCH_INTERVAL_MS;
+  if (fetch) {
+    lastRangeFetch.set(repoPath, Date.now());
+  }
+  // Highest version first
+  const tags = (await listTags(repoPath, { sort: "semver", fetch })).filter(
+    (tag) => tag.version,
+  );
+
+  // Candidate groups in order of preference
+  let groups: TagInfo[][];
+  if (prefix) {
+    groups = [tags.filter((tag) => tag.name.startsWith(prefix))];
+  } else {
+    const own = packageIdentifier
+      ? tags.filter((tag) => tag.name.startsWith(`${packageIdentifier}@`))
+      : [];
+    // Other packages' "name@version" tags are only used if nothing else looks like a version
+    const plain = tags.filter((tag) => !tag.name.includes("@"));
+    groups = own.length > 0 || plain.length > 0 ? [own, plain] : [tags];
+  }
+
+  const matches = (tag: TagInfo) => {
+    const version = parseVersion(tag.name);
+    return version !== null && range(version);
+  };
+  let match: TagInfo | undefined;
+  for (const group of groups) {
+    match = group.find(matches);
+    if (match) break;
+  }
+  return match?.name ?? null;
+}
+
+/**
+ * Find a dependency's package config and make sure its repository is available,
+ * without checking anything out. Archive packages are not downloaded here: their
+ * repoPath is the directory holding the unpacked versions (see resolveDependencyRepo).
+ * Returns null if the package does not exist.
+ */
+export async function locateDependencyRepo(
+  dependencyIdentifier: string,
+): Promise<Omit<ResolvedDependency, "tag" | "tagSpec" | "release"> | null> {
+  const found = await findPackageConfig(dependencyIdentifier);
+  if (!found) {
+    return null;
+  }
+  const packageConfig = found.config;
+
+  // Use correct packagesDir by storage_type
+  const packagesDir =
+    packageConfig.storage_type === "local"
+      ? env.LOCAL_PACKAGES_DIR
+      : env.PACKAGES_DIR;
+  if (packageConfig.evicted_at) {
+    logger.log("[storage]", `Re-cloning evicted repository of ${packageConfig.identifier}`);
+  }
+  const repoPath =
+    packageConfig.storage_type === "archive"
+      ? packageConfig.repo_path
+      : await ensureRepoAvailable(
+          packageConfig.repo_path,
+          packageConfig.storage_type,
+          packageConfig.urls.git,
+          packagesDir,
+        );
+
+  return { packageConfig, packagesDir, repoPath };
+}
+
+/**
+ * Save when a package was last queried (at most every ACCESS_RECORD_INTERVAL_MS), which
+ * clone eviction goes by, and clear `evicted_at` on every package sharing a clone that
+ * was just re-cloned. Called by the paths that read a package for a user (queries, chat,
+ * search, tree, read); jobs and version listings don't count as use. Never throws.
+ */
+export async function recordPackageAccess(packageConfig: PackageConfig): Promise<void> {
+  // Bookkeeping only: a failed write must not fail the query
+  await writePackageAccess(packageConfig).catch((error) => {
+    logger.error("[storage]", `Failed to record access to ${packageConfig.identifier}:`, error);
+  });
+}
+
+// packageConfig was read before the query, which may have re-cloned for minutes; only
+// the access fields are written, onto the config as it is now
+async function writePackageAccess(packageConfig: PackageConfig): Promise<void> {
+  const packagesDir =
+    packageConfig.storage_type === "local" ? env.LOCAL_PACKAGES_DIR : env.PACKAGES_DIR;
+  const now = new Date();
+  const lastAccessedAt = now.toISOString();
+  if (packageConfig.evicted_at && packageConfig.urls.git) {
+    await updateClonePackageConfigs(
+      packagesDir,
+      getRepoIdentifierFromUrl(packageConfig.urls.git),
+      (config) =>
+        config.identifier === packageConfig.identifier
+          ? { ...config, last_accessed_at: lastAccessedAt, evicted_at: undefined }
+          : { ...config, evicted_at: undefined },
+    );
+    return;
+  }
+  const current = await readPackageConfig(packagesDir, packageConfig.identifier, true);
+  if (!current) {
+    return;
+  }
+  const previous = current.last_accessed_at ? Date.parse(current.last_accessed_at) : 0;
+  if (now.getTime() - previous >= ACCESS_RECORD_INTERVAL_MS) {
+    await writePackageConfig(packagesDir, { ...current, last_accessed_at: lastAccessedAt });
+  }
+}
+
+/**
+ * Directory a package is read from: `subpath` inside the repository when configured
+ * (monorepos), otherwise the repository itself.
+ */
+async function scopeToSubpath(
+  root: string,
+  packageConfig: PackageConfig,
+  tag?: string,
+): Promise<string> {
+  const subpath = normalizeSubpath(packageConfig.subpath);
+  if (!subpath) {
+    return root;
+  }
+  try {
+    await resolveRepoPath(root, subpath);
+  } catch {
+    throw new Error(
+      `Subpath "${subpath}" of ${packageConfig.identifier} not found${tag ? ` at ${tag}` : ""}`,
+    );
+  }
+  return join(root, subpath);
+}
+
+/**
+ * Resolve a dependency to a directory ready to be read:
+ * finds the package config, picks the tag (project pin or default_tag),
+ * makes sure the repo is available, resolves version ranges to a tag and,
+ * for cloned repos, acquires a worktree with the tag checked out (sparse when
+ * `sparse_checkout` is set). Archive packages resolve the tag to a registry version
+ * and unpack it. repoPath is scoped to the package's `subpath`.
+ * Callers must call release() when done. Returns null if the package does not exist.
+ */
+export async function resolveDependencyRepo(
+  dependencyIdentifier: string,
+  projectIdentifier?: string,
+): Promise<ResolvedDependency | null> {
+  const located = await locateDependencyRepo(dependencyIdentifier);
+  if (!located) {
+    return null;
+  }
+  const { packageConfig, repoPath } = located;
+  const release = () => {};
+
+  if (packageConfig.storage_type === "archive") {
+    const spec = await resolveDependencyTag(packageConfig, projectIdentifier);
+    const unpacked = await ensureArchiveUnpacked(packageConfig, spec);
+    return {
+      ...located,
+      repoPath: await scopeToSubpath(unpacked.path, packageConfig, unpacked.version),
+      tag: unpacked.version,
+      ...(spec && spec !== unpacked.version ? { tagSpec: spec } : {}),
+      release,
+    };
+  }
+
+  const spec =
+    packageConfig.storage_type === "cloned"
+      ? await resolveDependencyTag(packageConfig, projectIdentifier)
+      : undefined;
+  if (!spec) {
+    return {
+      ...located,
+      repoPath: await scopeToSubpath(repoPath, packageConfig),
+      release,
+    };
+  }
+
+  const tag = await resolveTagSpec(repoPath, spec, packageConfig.identifier);
+  if (!tag) {
+    throw new Error(
+      `No tag of ${packageConfig.identifier} matches version range "${spec}"`,
+    );
+  }
+  const sparsePath = packageConfig.sparse_checkout
+    ? normalizeSubpath(packageConfig.subpath)
+    : undefined;
+  const worktree = await acquireWorktree(repoPath, tag, { sparsePath });
+
+  try {
+    return {
+      ...located,
+      repoPath: await scopeToSubpath(worktree.path, packageConfig, tag),
+      tag,
+      ...(tag !== spec ? { tagSpec: spec } : {}),
+      release: worktree.release,
+    };
+  } catch (error) {
+    worktree.release();
+    throw error;
+  }
+}
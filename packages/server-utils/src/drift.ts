@@ -0,0 +1,153 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { env } from "@kinetic-context/env/server";
+import { resolveArchiveVersion } from "./archive";
+import type { ProjectConfig } from "./config";
+import { findPackageConfig, resolveTagSpec } from "./dependency";
+import { getRepoIdentifierFromUrl } from "./git";
+import { proposeProjectDependencies, toTagSpec } from "./manifests";
+import { compareVersions, parseRange, parseVersion } from "./semver";
+import { findProjectCheckout } from "./workspace";
+
+/**
+ * in_sync: the configured tag is the installed version (or satisfies the declared range);
+ * drift: it isn't, so answers describe another version than the project uses;
+ * not_installed: no manifest in the checkout lists the dependency;
+ * unknown: nothing to compare (no checkout, no clone, local package, branch instead of a version)
+ */
+export type DriftStatus = "in_sync" | "drift" | "not_installed" | "unknown";
+
+export interface DependencyDrift {
+  identifier: string;
+  /** Tag from the project config, or the package's default_tag; may be a version range */
+  configuredTag?: string;
+  /** Tag configuredTag resolves to in the clone, or version in the registry for archives */
+  resolvedTag?: string;
+  /** Installed version from the lockfile, or the declared range without one */
+  installedVersion?: string;
+  installedLocked?: boolean;
+  installedSource?: string;
+  /** Tag of the clone matching the installed version */
+  installedTag?: string;
+  /** Newest release tag in the clone */
+  latestTag?: string;
+  /** A newer release than the configured one exists */
+  behindLatest: boolean;
+  status: DriftStatus;
+  /** Why the status is unknown */
+  note?: string;
+}
+
+export interface DriftReport {
+  project: string;
+  /** Checkout the installed versions were read from */
+  checkoutPath: string | null;
+  generatedAt: string;
+  dependencies: DependencyDrift[];
+}
+
+/**
+ * Compare each dependency's installed version (from the project's checkout under
+ * PROJECTS_DIR) with the tag configured in kinetic-context and the newest tag in the clone.
+ * Clones are never created here; dependencies without one report what is known.
+ */
+export async function getDependencyDriftReport(project: ProjectConfig): Promise<DriftReport> {
+  const checkoutPath = await findProjectCheckout(project);
+  const installed = checkoutPath
+    ? new Map(
+        (await proposeProjectDependencies(checkoutPath, project.dependencies)).proposals.map(
+          (proposal) => [proposal.identifier, proposal],
+        ),
+      )
+    : null;
+
+  const dependencies: DependencyDrift[] = [];
+  for (const dependency of project.dependencies) {
+    const found = await findPackageConfig(dependency.identifier);
+    const config = found?.config;
+    const configuredTag = dependency.tag ?? config?.default_tag;
+    const proposal = installed?.get(dependency.identifier);
+    const drift: DependencyDrift = {
+      identifier: dependency.identifier,
+      configuredTag,
+      installedVersion: proposal?.version,
+      installedLocked: proposal?.locked,
+      installedSource: proposal?.source,
+      installedTag: proposal?.locked ? proposal.tag : undefined,
+      behindLatest: false,
+      status: "unknown",
+    };
+    dependencies.push(drift);
+
+    if (!config) {
+      drift.note = "Package is not configured";
+      continue;
+    }
+
+    // Resolve against the clone only if it is already on disk
+    const repoPath =
+      config.storage_type === "cloned" && config.urls.git
+        ? join(env.PACKAGES_DIR, getRepoIdentifierFromUrl(config.urls.git))
+        : null;
+    if (repoPath && existsSync(repoPath)) {
+      try {
+        drift.resolvedTag = configuredTag
+          ? (await resolveTagSpec(repoPath, configuredTag, config.identifier)) ?? undefined
+          : undefined;
+        drift.latestTag =
+          (await resolveTagSpec(repoPath, "latest release", config.identifier)) ?? undefined;
+      } catch {
+        // Tags can't be read; compare what we have
+      }
+    } else if (config.storage_type === "archive") {
+      try {
+        drift.resolvedTag = configuredTag
+          ? await resolveArchiveVersion(config, configuredTag)
+          : undefined;
+        drift.latestTag = await resolveArchiveVersion(config, "latest");
+      } catch {
+        // Registry unreachable; compare what we have
+      }
+    }
+
+    const configuredVersion = parseVersion(drift.resolvedTag ?? configuredTag ?? "");
+    const latestVersion = drift.latestTag ? parseVersion(drift.latestTag) : null;
+    drift.behindLatest =
+      !!configuredVersion && !!latestVersion && compareVersions(latestVersion, configuredVersion) > 0;
+
+    if (!checkoutPath) {
+      drift.note = "Project checkout not found under the projects directory";
+    } else if (!proposal) {
+      drift.status = "not_installed";
+    } else if (config.storage_type === "local") {
+      drift.note = "Local packages are read as they are on disk";
+    } else if (!configuredVersion) {
+      drift.note = configuredTag
+        ? `Configured tag "${configuredTag}" is not a version`
+        : "No tag configured";
+    } else if (proposal.locked) {
+      const installedVersion = parseVersion(proposal.version ?? "");
+      if (installedVersion) {
+        drift.status = compareVersions(installedVersion, configuredVersion) === 0 ? "in_sync" : "drift";
+      } else {
+        drift.note = "Installed version is not a release";
+      }
+    } else {
+      // No lockfile: the configured version should at least satisfy the declared range
+      const spec = toTagSpec(proposal);
+      const range = spec ? parseRange(spec) : null;
+      if (range) {
+        drift.status = range(configuredVersion) ? "in_sync" : "drift";
+      } else {
+        drift.note = "No installed version found (no lockfile)";
+      }
+    }
+  }
+
+  return {
+    project: project.identifier,
+    checkoutPath,
+    generatedAt: new Date().toISOString(),
+    dependencies,
+  };
+}
@@ -0,0 +1,249 @@
+import { open, readdir, realpath, stat, type FileHandle } from "node:fs/promises";
+import { isAbsolute, join, posix, relative, resolve, sep } from "node:path";
+
+export interface TreeEntry {
+  path: string;
+  type: "file" | "directory";
+  size?: number;
+}
+
+export interface ListTreeOptions {
+  /** How many directory levels below `subPath` to descend (1 = direct children only) */
+  depth?: number;
+  maxEntries?: number;
+}
+
+export interface ReadFileOptions {
+  /** First line to return (1-based, inclusive) */
+  startLine?: number;
+  /** Last line to return (1-based, inclusive) */
+  endLine?: number;
+  maxBytes?: number;
+}
+
+export interface FileContents {
+  path: string;
+  startLine: number;
+  endLine: number;
+  /** Size of the whole file */
+  totalBytes: number;
+  /** Line count of the whole file; only known when the read reached its end */
+  totalLines?: number;
+  content: string;
+  truncated: boolean;
+}
+
+const DEFAULT_TREE_DEPTH = 2;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_BYTES = 100 * 1024;
+// Files with a NUL byte in their beginning are treated as binary
+const BINARY_SNIFF_BYTES = 8000;
+// Chunk size for skipping to startLine
+const SCAN_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Normalise a package subpath ("./packages/core/", "packages\\core") to a POSIX path
+ * relative to the repository root; undefined for the root itself.
+ * Throws if it is absolute or leaves the repository.
+ */
+export function normalizeSubpath(subpath: string | undefined): string | undefined {
+  const trimmed = subpath?.trim().replace(/\\/g, "/");
+  if (!trimmed) {
+    return undefined;
+  }
+  if (posix.isAbsolute(trimmed) || /^[A-Za-z]:/.test(trimmed)) {
+    throw new Error(`Subpath must be relative to the repository root: ${subpath}`);
+  }
+  const normalized = posix.normalize(trimmed).replace(/\/+$/, "");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new Error(`Subpath escapes the repository: ${subpath}`);
+  }
+  return normalized === "." ? undefined : normalized;
+}
+
+/**
+ * Resolve a repository-relative path and make sure it stays inside the repository,
+ * following symlinks so a link pointing outside repoPath is rejected too.
+ */
+export async function resolveRepoPath(
+  repoPath: string,
+  relativePath: string,
+): Promise<string> {
+  const root = await realpath(repoPath);
+  const candidate = resolve(root, relativePath.replace(/^[/\\]+/, ""));
+  const escapes = (path: string) => {
+    const rel = relative(root, path);
+    return rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel);
+  };
+
+  if (escapes(candidate)) {
+    throw new Error(`Path escapes the repository: ${relativePath}`);
+  }
+
+  let target: string;
+  try {
+    target = await realpath(candidate);
+  } catch {
+    throw new Error(`Path not found: ${relativePath}`);
+  }
+
+  if (escapes(target)) {
+    throw new Error(`Path escapes the repository: ${relativePath}`);
+  }
+
+  const rel = relative(root, target);
+  if (rel === ".git" || rel.startsWith(`.git${sep}`)) {
+    throw new Error(`Path is inside the .git directory: ${relativePath}`);
+  }
+  return target;
+}
+
+/**
+ * List files and directories of a repository (breadth-first), skipping `.git`.
+ * Returned paths are relative to the repository root.
+ */
+export async function listRepositoryTree(
+  repoPath: string,
+  subPath: string = "",
+  options: ListTreeOptions = {},
+): Promise<{ entries: TreeEntry[]; truncated: boolean }> {
+  const depth = options.depth ?? DEFAULT_TREE_DEPTH;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+  const root = await realpath(repoPath);
+  const start = await resolveRepoPath(repoPath, subPath);
+  if (!(await stat(start)).isDirectory()) {
+    throw new Error(`Not a directory: ${subPath}`);
+  }
+
+  const entries: TreeEntry[] = [];
+  let queue: string[] = [start];
+  for (let level = 0; level < depth && queue.length > 0; level++) {
+    const next: string[] = [];
+    for (const dir of queue) {
+      const children = (await readdir(dir, { withFileTypes: true })).sort((a, b) =>
+        a.name.localeCompare(b.name),
+      );
+      for (const child of children) {
+        if (child.name === ".git") continue;
+        if (entries.length >= maxEntries) {
+          return { entries, truncated: true };
+        }
+        const fullPath = join(dir, child.name);
+        const path = relative(root, fullPath).split(sep).join("/");
+        if (child.isDirectory()) {
+          entries.push({ path, type: "directory" });
+          next.push(fullPath);
+        } else if (child.isFile()) {
+          const { size } = await stat(fullPath);
+          entries.push({ path, type: "file", size });
+        }
+      }
+    }
+    queue = next;
+  }
+
+  return { entries, truncated: false };
+}
+
+/**
+ * Read a text file from a repository, optionally limited to a line range.
+ * Output is capped at maxBytes; `truncated` is set when lines were dropped to fit.
+ * Only the requested range is read, so large files are never loaded whole.
+ */
+export async function readRepositoryFile(
+  repoPath: string,
+  filePath: string,
+  options: ReadFileOptions = {},
+): Promise<FileContents> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const target = await resolveRepoPath(repoPath, filePath);
+  const stats = await stat(target);
+  if (!stats.isFile()) {
+    throw new Error(`Not a file: ${filePath}`);
+  }
+  const totalBytes = stats.size;
+  const startLine = Math.max(1, options.startLine ?? 1);
+
+  let window: Buffer;
+  let reachedEnd: boolean;
+  // Line number of window's first line
+  let lineNumber = 1;
+  const handle = await open(target, "r");
+  try {
+    const head = await readAt(handle, 0, Math.min(BINARY_SNIFF_BYTES, totalBytes));
+    if (head.includes(0)) {
+      throw new Error(`Binary file cannot be read as text: ${filePath}`);
+    }
+
+    // Skip to the first byte of startLine, counting newlines a chunk at a time
+    let position = 0;
+    while (lineNumber < startLine && position < totalBytes) {
+      const chunk = await readAt(handle, position, Math.min(SCAN_CHUNK_BYTES, totalBytes - position));
+      if (chunk.length === 0) {
+        break;
+      }
+      let index = -1;
+      while (lineNumber < startLine && (index = chunk.indexOf(10, index + 1)) !== -1) {
+        lineNumber++;
+      }
+      position += lineNumber < startLine ? chunk.length : index + 1;
+    }
+    if (lineNumber < startLine) {
+      throw new Error(
+        `startLine ${startLine} is past the end of ${filePath} (${lineNumber} lines)`,
+      );
+    }
+
+    // One byte over the cap tells a line that just fits from one that doesn't
+    window = await readAt(handle, position, Math.min(maxBytes + 1, totalBytes - position));
+    reachedEnd = position + window.length >= totalBytes;
+  } finally {
+    await handle.close();
+  }
+
+  // Unless the window reaches the end of the file, its last line is cut off
+  const lines = window.toString("utf-8").split("\n");
+  const totalLines = reachedEnd ? lineNumber + lines.length - 1 : undefined;
+  const requestedEnd = options.endLine ?? Number.POSITIVE_INFINITY;
+
+  const selected: string[] = [];
+  let bytes = 0;
+  let endLine = startLine - 1;
+  let truncated = false;
+  for (const [index, line] of lines.entries()) {
+    const currentLine = startLine + index;
+    if (currentLine > requestedEnd) {
+      break;
+    }
+    const lineBytes = Buffer.byteLength(line, "utf-8") + 1;
+    if (bytes + lineBytes > maxBytes || (!reachedEnd && index === lines.length - 1)) {
+      if (selected.length === 0) {
+        // A single oversized line (e.g. minified code): return its beginning
+        selected.push(line.slice(0, maxBytes));
+        endLine = currentLine;
+      }
+      truncated = true;
+      break;
+    }
+    selected.push(line);
+    bytes += lineBytes;
+    endLine = currentLine;
+  }
+
+  return {
+    path: relative(await realpath(repoPath), target).split(sep).join("/"),
+    startLine,
+    endLine,
+    totalBytes,
+    ...(totalLines !== undefined ? { totalLines } : {}),
+    content: selected.join("\n"),
+    truncated,
+  };
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
@@ -1,7 +1,12 @@
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { mkdir, readdir, rename, rm } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
 import { createHash } from "node:crypto";
-import simpleGit from "simple-git";
+import { env } from "@kinetic-context/env/server";
+import simpleGit, { type SimpleGit } from "simple-git";
+import { getGitAuthEnv } from "./credentials";
+import { logger } from "./logger";
+import { compareVersions, formatVersion, parseVersion, type Version } from "./semver";
 
 /**
  * Normalize a git URL to create a consistent identifier for the repository.
@@ -52,6 +57,135 @@ export function getRepoIdentifierFromUrl(gitUrl: string): string {
   return identifier;
 }
 
+/**
+ * One of git's progress lines, e.g.
+ * "Receiving objects:  45% (450/1000), 1.20 MiB | 2.00 MiB/s"
+ */
+export interface GitProgressEvent {
+  /** First word of the phase, lower-cased: "counting", "compressing", "receiving", "resolving", ... */
+  stage: string;
+  percent: number;
+  /** Objects (or deltas, or files) done so far */
+  processed: number;
+  total: number;
+  /** Bytes received so far (only reported while receiving objects) */
+  bytes?: number;
+  /** Current transfer rate in bytes per second (only reported while receiving objects) */
+  bytesPerSecond?: number;
+}
+
+/**
+ * Options for long-running git commands (clone, pull, fetch).
+ */
+export interface GitTaskOptions {
+  /** Called for each of git's progress lines */
+  onProgress?: (event: GitProgressEvent) => void;
+  /** Kills the git process */
+  signal?: AbortSignal;
+}
+
+const PROGRESS_LINE =
+  /^(?:remote:\s*)?([A-Za-z][A-Za-z ]*?):\s+(\d+)% \((\d+)\/(\d+)\)(?:,\s*([\d.]+) (bytes|[KMG]iB)(?:\s*\|\s*([\d.]+) (bytes|[KMG]iB)\/s)?)?/;
+
+const SIZE_UNITS: Record<string, number> = {
+  bytes: 1,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+};
+
+function toBytes(value: string | undefined, unit: string | undefined): number | undefined {
+  if (!value || !unit) {
+    return undefined;
+  }
+  return Math.round(Number.parseFloat(value) * SIZE_UNITS[unit]!);
+}
+
+/**
+ * Parse a line of git's --progress output. Returns null for other output.
+ */
+export function parseGitProgress(line: string): GitProgressEvent | null {
+  const match = PROGRESS_LINE.exec(line.trim());
+  if (!match) {
+    return null;
+  }
+  const [, phase, percent, processed, total, size, sizeUnit, rate, rateUnit] = match;
+  const event: GitProgressEvent = {
+    stage: phase!.split(" ", 1)[0]!.toLowerCase(),
+    percent: Number(percent),
+    processed: Number(processed),
+    total: Number(total),
+  };
+  const bytes = toBytes(size, sizeUnit);
+  if (bytes !== undefined) {
+    event.bytes = bytes;
+  }
+  const bytesPerSecond = toBytes(rate, rateUnit);
+  if (bytesPerSecond !== undefined) {
+    event.bytesPerSecond = bytesPerSecond;
+  }
+  return event;
+}
+
+/**
+ * simple-git for a long-running command. With onProgress, callers pass --progress
+ * (see progressArgs) and git's stderr is parsed line by line; simple-git's own progress
+ * plugin only reports percentages, not the bytes received.
+ */
+async function gitTask(
+  baseDir: string | undefined,
+  options: GitTaskOptions,
+  remoteUrl?: string,
+): Promise<SimpleGit> {
+  const git = simpleGit({
+    ...(baseDir ? { baseDir } : {}),
+    ...(options.signal ? { abort: options.signal } : {}),
+  });
+  await withCredentials(git, remoteUrl ?? (baseDir ? await getOriginUrl(baseDir) : undefined));
+  const { onProgress } = options;
+  if (onProgress) {
+    git.outputHandler((_command, _stdout, stderr) => {
+      // Progress lines end in \r while a phase is running and \n when it is done
+      stderr.on("data", (chunk: Buffer) => {
+        for (const line of chunk.toString("utf8").split(/[\r\n]+/)) {
+          const event = parseGitProgress(line);
+          if (event) {
+            onProgress(event);
+          }
+        }
+      });
+    });
+  }
+  return git;
+}
+
+async function getOriginUrl(repoPath: string): Promise<string | undefined> {
+  const url = await simpleGit(repoPath)
+    .raw(["config", "--get", "remote.origin.url"])
+    .catch(() => "");
+  return url.trim() || undefined;
+}
+
+/**
+ * Apply the stored credentials for `remoteUrl` (see credentials.ts) to a simple-git
+ * instance, through its environment.
+ */
+async function withCredentials(git: SimpleGit, remoteUrl: string | undefined): Promise<SimpleGit> {
+  return git.env({ ...process.env, ...(await getGitAuthEnv(remoteUrl)) });
+}
+
+/**
+ * simple-git for a repository's commands that talk to origin (fetching a tag, listing
+ * remote branches), with the credentials for origin's host.
+ */
+export async function remoteGit(repoPath: string): Promise<SimpleGit> {
+  return withCredentials(simpleGit(repoPath), await getOriginUrl(repoPath));
+}
+
+function progressArgs(options: GitTaskOptions): string[] {
+  return options.onProgress ? ["--progress"] : [];
+}
+
 /**
  * Clone a repository to the default packages directory.
  * Uses a normalized identifier based on the git URL so multiple packages
@@ -61,24 +195,35 @@ export function getRepoIdentifierFromUrl(gitUrl: string): string {
 export async function ensureRepoCloned(
   packagesDir: string,
   gitUrl: string,
+  options: GitTaskOptions = {},
 ): Promise<string> {
   // Use normalized repo identifier based on git URL, not package identifier
   // This allows multiple packages from the same repo to share the same clone
   const repoIdentifier = getRepoIdentifierFromUrl(gitUrl);
   const repoPath = join(packagesDir, repoIdentifier);
 
-  if (!existsSync(repoPath)) {
-    const git = simpleGit();
+  if (existsSync(repoPath)) {
+    return repoPath;
+  }
+  // Concurrent callers (e.g. queries re-cloning an evicted repo) wait for one clone,
+  // which also never overlaps removeClone()
+  await withRepoLock(repoPath, async () => {
+    if (existsSync(repoPath)) {
+      return;
+    }
+    const git = await gitTask(undefined, options, gitUrl);
     try {
-      await git.clone(gitUrl, repoPath);
+      await git.clone(gitUrl, repoPath, progressArgs(options));
     } catch (error) {
+      // Don't leave a half-written clone behind (e.g. after a cancelled clone)
+      await rm(repoPath, { recursive: true, force: true }).catch(() => {});
       throw new Error(
         `Failed to clone repository ${gitUrl} to ${repoPath}: ${
           error instanceof Error ? error.message : String(error)
         }`,
       );
     }
-  }
+  });
 
   return repoPath;
 }
@@ -123,37 +268,330 @@ export async function ensureRepoAvailable(
 }
 
 /**
- * Checkout a tag/branch in a repository.
- * Only works for cloned repos. Local repos should not have tags checked out.
+ * A worktree with a tag checked out, held until release() is called.
  */
-export async function checkoutTag(
+export interface WorktreeLease {
+  /** Directory to read from (and point OpenCode at) */
+  path: string;
+  tag: string;
+  /** Stop using the worktree; idle worktrees are removed after WORKTREE_IDLE_TIMEOUT_MS */
+  release: () => void;
+}
+
+interface WorktreeEntry {
+  repoPath: string;
+  refs: number;
+  lastUsedAt: number;
+}
+
+const WORKTREE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Keyed by worktree path
+const worktrees = new Map<string, WorktreeEntry>();
+// Worktree add/remove change the clone's metadata, so they run one at a time per clone
+const repoLocks = new Map<string, Promise<void>>();
+// Clones whose worktrees left on disk by an earlier run have been registered
+const adoptedRepos = new Set<string>();
+let worktreeSweeper: NodeJS.Timeout | null = null;
+
+function withRepoLock<T>(repoPath: string, fn: () => Promise<T>): Promise<T> {
+  const previous = repoLocks.get(repoPath) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const tail = run.then(
+    () => {},
+    () => {},
+  );
+  repoLocks.set(repoPath, tail);
+  void tail.then(() => {
+    if (repoLocks.get(repoPath) === tail) {
+      repoLocks.delete(repoPath);
+    }
+  });
+  return run;
+}
+
+/**
+ * Directory holding a clone's worktrees: a hidden sibling of the clone, so it stays
+ * inside PACKAGES_DIR (which OpenCode can see) without being scanned as a package.
+ */
+export function getWorktreeRoot(repoPath: string): string {
+  return join(dirname(repoPath), `.${basename(repoPath)}.worktrees`);
+}
+
+function getWorktreePath(repoPath: string, tag: string, sparsePath?: string): string {
+  // Readable and unique: "v1.2.3-1a2b3c4d", "feature_x-5e6f7a8b"
+  const safe = tag.replace(/[^A-Za-z0-9._-]+/g, "_").slice(0, 80);
+  // Sparse worktrees only hold one subpath, so they aren't shared with full ones
+  const key = sparsePath ? `${tag}\0${sparsePath}` : tag;
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 8);
+  return join(getWorktreeRoot(repoPath), `${safe}-${hash}`);
+}
+
+/**
+ * Commit-ish to check out for a tag or branch. Branches use the remote-tracking ref,
+ * which fetches and pulls keep current, since worktrees are detached.
+ */
+async function resolveWorktreeRef(git: SimpleGit, repoPath: string, tag: string): Promise<string> {
+  const exists = async (ref: string) =>
+    git
+      .raw(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])
+      .then((output) => output.trim().length > 0)
+      .catch(() => false);
+  if (await exists(`refs/remotes/origin/${tag}`)) {
+    return `origin/${tag}`;
+  }
+  if (await exists(tag)) {
+    return tag;
+  }
+  // Not fetched yet
+  await (await remoteGit(repoPath)).fetch(["origin", `refs/tags/${tag}:refs/tags/${tag}`]).catch(() => {
+    // Not a tag (or offline); fall through to the error below
+  });
+  if (await exists(tag)) {
+    return tag;
+  }
+  throw new Error(`Tag or branch "${tag}" not found`);
+}
+
+async function adoptExistingWorktrees(repoPath: string): Promise<void> {
+  if (adoptedRepos.has(repoPath)) {
+    return;
+  }
+  adoptedRepos.add(repoPath);
+  await simpleGit(repoPath).raw(["worktree", "prune"]).catch(() => {});
+  const root = getWorktreeRoot(repoPath);
+  const entries = await readdir(root).catch(() => [] as string[]);
+  for (const entry of entries) {
+    const path = join(root, entry);
+    if (!worktrees.has(path)) {
+      // Swept like any other idle worktree unless someone asks for it again
+      worktrees.set(path, { repoPath, refs: 0, lastUsedAt: Date.now() });
+    }
+  }
+}
+
+async function removeWorktree(repoPath: string, path: string): Promise<void> {
+  try {
+    await simpleGit(repoPath).raw(["worktree", "remove", "--force", path]);
+  } catch {
+    // Not registered (or the clone is gone): remove the directory and forget it
+    await rm(path, { recursive: true, force: true });
+    await simpleGit(repoPath).raw(["worktree", "prune"]).catch(() => {});
+  }
+}
+
+function sweepWorktrees(): void {
+  const now = Date.now();
+  for (const [path, entry] of worktrees) {
+    if (entry.refs > 0 || now - entry.lastUsedAt < env.WORKTREE_IDLE_TIMEOUT_MS) {
+      continue;
+    }
+    void withRepoLock(entry.repoPath, async () => {
+      // Re-check: it may have been acquired while waiting for the lock
+      if (entry.refs > 0 || worktrees.get(path) !== entry) {
+        return;
+      }
+      worktrees.delete(path);
+      await removeWorktree(entry.repoPath, path);
+      logger.log("[git]", `Removed idle worktree ${path}`);
+    }).catch((error) => {
+      logger.error("[git]", `Failed to remove worktree ${path}:`, error);
+    });
+  }
+}
+
+/**
+ * Materialise a tag/branch of a clone as its own worktree and hold it until release().
+ * Each (clone, tag) pair gets one worktree shared by all concurrent readers, so queries
+ * for different tags of the same repository never check out over each other. Worktrees
+ * are reference counted and removed once idle for WORKTREE_IDLE_TIMEOUT_MS.
+ * With `sparsePath`, the worktree is a cone-mode sparse checkout of that directory
+ * (plus files at the repository root). Only for cloned repos.
+ */
+export async function acquireWorktree(
   repoPath: string,
   tag: string,
-): Promise<void> {
-  const git = simpleGit(repoPath);
-  try {
-    // Fetch tags first to ensure we have the tag
-    await git.fetch(["origin", `refs/tags/${tag}:refs/tags/${tag}`]).catch(
-      () => {
-        // Ignore fetch errors, tag might already exist locally
-      },
-    );
-    await git.checkout(tag);
-  } catch (error) {
-    throw new Error(
-      `Failed to checkout tag ${tag} in ${repoPath}: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-    );
+  options: { sparsePath?: string } = {},
+): Promise<WorktreeLease> {
+  const { sparsePath } = options;
+  const path = getWorktreePath(repoPath, tag, sparsePath);
+
+  const entry = await withRepoLock(repoPath, async () => {
+    await adoptExistingWorktrees(repoPath);
+    const git = simpleGit(repoPath);
+    let current = worktrees.get(path);
+
+    try {
+      if (!current || !existsSync(join(path, ".git"))) {
+        const ref = await resolveWorktreeRef(git, repoPath, tag);
+        await git.raw(["worktree", "prune"]);
+        await rm(path, { recursive: true, force: true });
+        await mkdir(dirname(path), { recursive: true });
+        if (sparsePath) {
+          // Set the sparse patterns (kept in the worktree's own config) before checking out
+          await git.raw(["worktree", "add", "--detach", "--force", "--no-checkout", path, ref]);
+          const worktreeGit = simpleGit(path);
+          await worktreeGit.raw(["sparse-checkout", "set", "--cone", sparsePath]);
+          await worktreeGit.raw(["checkout", "--detach", "--force", ref]);
+        } else {
+          await git.raw(["worktree", "add", "--detach", "--force", path, ref]);
+        }
+        current = { repoPath, refs: 0, lastUsedAt: Date.now() };
+        worktrees.set(path, current);
+      } else if (current.refs === 0) {
+        // Nobody is reading it: move it to where the branch points now
+        const ref = await resolveWorktreeRef(git, repoPath, tag);
+        await simpleGit(path).raw(["checkout", "--detach", "--force", ref]);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to checkout tag ${tag} in ${repoPath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    current.refs++;
+    current.lastUsedAt = Date.now();
+    return current;
+  });
+
+  if (!worktreeSweeper) {
+    worktreeSweeper = setInterval(sweepWorktrees, WORKTREE_SWEEP_INTERVAL_MS);
+    worktreeSweeper.unref();
   }
+
+  let released = false;
+  return {
+    path,
+    tag,
+    release: () => {
+      if (released) return;
+      released = true;
+      entry.refs--;
+      entry.lastUsedAt = Date.now();
+    },
+  };
+}
+
+/**
+ * Delete a clone and all of its worktrees. Throws if a worktree is being read.
+ */
+export async function removeClone(repoPath: string): Promise<void> {
+  await withRepoLock(repoPath, async () => {
+    const held = [...worktrees.values()].some((entry) => entry.repoPath === repoPath && entry.refs > 0);
+    if (held) {
+      throw new Error(`A worktree of ${repoPath} is in use`);
+    }
+    for (const [path, entry] of worktrees) {
+      if (entry.repoPath === repoPath) {
+        worktrees.delete(path);
+      }
+    }
+    adoptedRepos.delete(repoPath);
+    await rm(getWorktreeRoot(repoPath), { recursive: true, force: true });
+    await rm(repoPath, { recursive: true, force: true });
+  });
+}
+
+/**
+ * Write a git bundle of a clone's origin branches and tags, so the clone can be
+ * recreated on a machine that can't reach origin (see restoreRepoFromBundle).
+ */
+export async function createRepoBundle(repoPath: string, bundlePath: string): Promise<void> {
+  await withRepoLock(repoPath, async () => {
+    const git = simpleGit(repoPath);
+    const refs = (
+      await git.raw(["for-each-ref", "--format=%(refname)", "refs/remotes/origin", "refs/tags"])
+    )
+      .split("\n")
+      .map((ref) => ref.trim())
+      .filter((ref) => ref && ref !== "refs/remotes/origin/HEAD");
+    if (refs.length === 0) {
+      throw new Error(`${repoPath} has no branches or tags from origin to bundle`);
+    }
+    try {
+      await git.raw(["bundle", "create", "--quiet", bundlePath, ...refs]);
+    } catch (error) {
+      await rm(bundlePath, { force: true }).catch(() => {});
+      throw new Error(
+        `Failed to bundle ${repoPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+/**
+ * Recreate a clone from a bundle written by createRepoBundle, as if it had been cloned
+ * from gitUrl: origin points at gitUrl and defaultBranch (or the first branch) is checked
+ * out. An existing clone is kept as it is; `restored` is false then.
+ */
+export async function restoreRepoFromBundle(
+  packagesDir: string,
+  gitUrl: string,
+  bundlePath: string,
+  defaultBranch?: string,
+): Promise<{ repoPath: string; restored: boolean }> {
+  const repoPath = join(packagesDir, getRepoIdentifierFromUrl(gitUrl));
+  if (existsSync(repoPath)) {
+    return { repoPath, restored: false };
+  }
+  const restored = await withRepoLock(repoPath, async () => {
+    if (existsSync(repoPath)) {
+      return false;
+    }
+    // Built next to the clone and renamed into place, so a failed import leaves nothing behind
+    const tmpPath = join(dirname(repoPath), `.${basename(repoPath)}.importing`);
+    await rm(tmpPath, { recursive: true, force: true });
+    await mkdir(tmpPath, { recursive: true });
+    try {
+      const git = simpleGit(tmpPath);
+      await git.init();
+      await git.addRemote("origin", gitUrl);
+      await git.fetch([
+        "--quiet",
+        bundlePath,
+        "+refs/remotes/origin/*:refs/remotes/origin/*",
+        "+refs/tags/*:refs/tags/*",
+      ]);
+      const branches = (await git.raw(["for-each-ref", "--format=%(refname:lstrip=3)", "refs/remotes/origin"]))
+        .split("\n")
+        .map((branch) => branch.trim())
+        .filter(Boolean);
+      const branch = defaultBranch && branches.includes(defaultBranch) ? defaultBranch : branches[0];
+      if (branch) {
+        await git.raw(["symbolic-ref", "refs/remotes/origin/HEAD", `refs/remotes/origin/${branch}`]);
+        await git.checkout(["-B", branch, "--track", `origin/${branch}`]);
+      }
+      await rename(tmpPath, repoPath);
+    } catch (error) {
+      await rm(tmpPath, { recursive: true, force: true }).catch(() => {});
+      throw new Error(
+        `Failed to restore ${repoPath} from a bundle: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    return true;
+  });
+  return { repoPath, restored };
+}
+
+/**
+ * Branch checked out in the repository, or null for a detached HEAD.
+ */
+export async function getCheckedOutBranch(repoPath: string): Promise<string | null> {
+  const branch = (await simpleGit(repoPath).revparse(["--abbrev-ref", "HEAD"])).trim();
+  return branch === "HEAD" ? null : branch;
 }
 
 export async function pullRepository(
   repoPath: string,
+  options: GitTaskOptions = {},
 ): Promise<{ success: boolean; error?: string }> {
-  const git = simpleGit(repoPath);
+  const git = await gitTask(repoPath, options);
   try {
-    await git.pull();
+    await git.pull(progressArgs(options));
     return { success: true };
   } catch (error) {
     return {
@@ -163,6 +601,33 @@ export async function pullRepository(
   }
 }
 
+/**
+ * Fetch all branches and tags from origin, dropping ones deleted upstream, so tag
+ * lists, version ranges and branch worktrees see the latest refs. Throws on error.
+ */
+export async function fetchRepository(
+  repoPath: string,
+  options: GitTaskOptions = {},
+): Promise<void> {
+  const git = await gitTask(repoPath, options);
+  try {
+    await git.fetch([
+      "origin",
+      "--prune",
+      "--prune-tags",
+      "--tags",
+      "--force",
+      ...progressArgs(options),
+    ]);
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch ${repoPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
 export async function getRepoPath(
   packagesDir: string,
   identifier: string,
@@ -189,7 +654,7 @@ export async function getDefaultBranch(repoPath: string): Promise<string> {
   } catch (error) {
     // If that fails, try to get it from the remote
     try {
-      const remoteInfo = await git.remote(["show", "origin"]);
+      const remoteInfo = await (await remoteGit(repoPath)).remote(["show", "origin"]);
       const match = remoteInfo.match(/HEAD branch: (.+)/);
       if (match && match[1]) {
         return match[1].trim();
@@ -209,6 +674,23 @@ export async function getDefaultBranch(repoPath: string): Promise<string> {
   return "main";
 }
 
+/**
+ * Whether `ref` is one of the repository's tags rather than a branch, i.e. a package
+ * pinned to it never changes when the repository is pulled.
+ */
+export async function isTagRef(repoPath: string, ref: string): Promise<boolean> {
+  const git = simpleGit(repoPath);
+  const exists = (fullRef: string) =>
+    git
+      .raw(["rev-parse", "--verify", "--quiet", fullRef])
+      .then((output) => output.trim().length > 0)
+      .catch(() => false);
+  if (await exists(`refs/remotes/origin/${ref}`)) {
+    return false;
+  }
+  return exists(`refs/tags/${ref}`);
+}
+
 /**
  * List branches for a repository with the default branch first.
  * Used when selecting branch for a cloned package in project dependencies.
@@ -248,6 +730,79 @@ export async function listBranches(
   return { defaultBranch, branches };
 }
 
+export interface TagInfo {
+  name: string;
+  /** Commit the tag points to */
+  commit: string;
+  /** Tagger date for annotated tags, commit date for lightweight tags (ISO 8601) */
+  date: string;
+  annotated: boolean;
+  /** Annotated tag message */
+  message?: string;
+  /** Normalized version parsed from the name, e.g. "3.22.4" for "v3.22.4" */
+  version?: string;
+}
+
+/**
+ * List tags with their dates and annotated messages.
+ * "semver" (default) puts version tags first, highest version first, followed by the
+ * remaining tags newest first; "date" orders all tags newest first.
+ * With `fetch`, tags are fetched from origin first (cloned repos only have the tags
+ * that existed when they were cloned or last pulled).
+ */
+export async function listTags(
+  repoPath: string,
+  options: { sort?: "semver" | "date"; fetch?: boolean } = {},
+): Promise<TagInfo[]> {
+  const git = simpleGit(repoPath);
+  if (options.fetch) {
+    await (await remoteGit(repoPath)).fetch(["origin", "--tags", "--force"]).catch(() => {
+      // Offline or no origin: list what we have
+    });
+  }
+
+  // %(*objectname) is the peeled commit of annotated tags, empty for lightweight ones
+  const output = await git.raw([
+    "for-each-ref",
+    "refs/tags",
+    "--format=%(refname:short)%1f%(objecttype)%1f%(objectname)%1f%(*objectname)%1f%(creatordate:iso-strict)%1f%(contents)%1e",
+  ]);
+
+  const tags: Array<TagInfo & { parsed: Version | null }> = [];
+  for (const record of output.split("\x1e")) {
+    const [name, objectType, objectName, peeled, date, contents] = record
+      .replace(/^\n/, "")
+      .split("\x1f");
+    if (!name) continue;
+    const annotated = objectType === "tag";
+    const parsed = parseVersion(name);
+    tags.push({
+      name,
+      commit: (annotated ? peeled : objectName) ?? "",
+      date: date ?? "",
+      annotated,
+      ...(annotated && contents?.trim() ? { message: contents.trim() } : {}),
+      ...(parsed ? { version: formatVersion(parsed) } : {}),
+      parsed,
+    });
+  }
+
+  // Dates carry the tagger's timezone offset, so compare instants rather than strings
+  const byDate = (a: TagInfo, b: TagInfo) => (Date.parse(b.date) || 0) - (Date.parse(a.date) || 0);
+  tags.sort((a, b) => {
+    if (options.sort !== "date") {
+      if (a.parsed && b.parsed) {
+        return compareVersions(b.parsed, a.parsed) || byDate(a, b);
+      }
+      if (a.parsed) return -1;
+      if (b.parsed) return 1;
+    }
+    return byDate(a, b);
+  });
+
+  return tags.map(({ parsed: _parsed, ...tag }) => tag);
+}
+
 /**
  * Recursively scan a directory for git repositories.
  * Returns an array of discovered repository paths.
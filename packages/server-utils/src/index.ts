@@ -1,15 +1,36 @@
-export { logger } from "./logger";
+export { logger, redirectLogsToStderr } from "./logger";
 export {
   getRepoIdentifierFromUrl,
   ensureRepoCloned,
   ensureRepoAvailable,
-  checkoutTag,
+  acquireWorktree,
+  getWorktreeRoot,
+  removeClone,
+  createRepoBundle,
+  restoreRepoFromBundle,
   pullRepository,
+  fetchRepository,
+  isTagRef,
+  getCheckedOutBranch,
+  remoteGit,
   getRepoPath,
   getDefaultBranch,
   listBranches,
+  listTags,
   discoverGitRepositories,
+  type TagInfo,
+  type WorktreeLease,
+  type GitTaskOptions,
+  type GitProgressEvent,
 } from "./git";
+export {
+  parseVersion,
+  formatVersion,
+  compareVersions,
+  parseRange,
+  type Version,
+  type VersionRange,
+} from "./semver";
 export {
   readPackageConfig,
   readProjectConfig,
@@ -23,6 +44,8 @@ export {
   writeOpencodeConfig,
   readGlobalConfig,
   writeGlobalConfig,
+  onConfigChange,
+  type ConfigChangeEvent,
   type PackageConfig,
   type ProjectConfig,
   type ProjectDependency,
@@ -32,7 +55,132 @@ export {
 export {
   queryOpencodeStream,
   queryOpencode,
-  generateKctxHelperIfNeeded,
+  queryOpencodeWithProgress,
   regenerateKctxHelper,
   type OpencodeModel,
+  type OpencodeProgress,
 } from "./opencode";
+export {
+  findPackageConfig,
+  resolveDependencyTag,
+  resolveTagSpec,
+  locateDependencyRepo,
+  recordPackageAccess,
+  resolveDependencyRepo,
+  type ResolvedDependency,
+} from "./dependency";
+export {
+  DEFAULT_REGISTRIES,
+  getArchiveRoot,
+  getArchivePackageName,
+  listArchiveVersions,
+  listArchiveTags,
+  resolveArchiveVersion,
+  ensureArchiveUnpacked,
+  type ArchiveSource,
+  type RegistrySource,
+  type ArchiveVersion,
+} from "./archive";
+export {
+  createPackageBundle,
+  readPackageBundle,
+  type PackageBundleEntry,
+  type PackageBundleContents,
+} from "./bundles";
+export {
+  searchRepository,
+  type SearchOptions,
+  type SearchMatch,
+  type SearchResult,
+} from "./search";
+export {
+  resolveRepoPath,
+  normalizeSubpath,
+  listRepositoryTree,
+  readRepositoryFile,
+  type TreeEntry,
+  type ListTreeOptions,
+  type ReadFileOptions,
+  type FileContents,
+} from "./files";
+export {
+  compareRefs,
+  buildVersionComparisonPrompt,
+  explainVersionComparison,
+  type ChangedFile,
+  type CommitSummary,
+  type ExportChange,
+  type VersionComparison,
+  type CompareOptions,
+} from "./compare";
+export {
+  resolveProjectFromWorkspace,
+  findProjectCheckout,
+  type WorkspaceHints,
+  type ProjectMatch,
+} from "./workspace";
+export {
+  findManifestFiles,
+  readProjectManifests,
+  proposeProjectDependencies,
+  toTagSpec,
+  type Ecosystem,
+  type DeclaredDependency,
+  type DependencyProposal,
+} from "./manifests";
+export {
+  getDependencyDriftReport,
+  type DriftStatus,
+  type DependencyDrift,
+  type DriftReport,
+} from "./drift";
+export {
+  startJobQueue,
+  ownsJobQueue,
+  enqueueJob,
+  listJobs,
+  getJob,
+  cancelJob,
+  retryJob,
+  cancelPackageJobs,
+  waitForJob,
+  watchJobs,
+  getCloneStatus,
+  toCloneStatus,
+  type Job,
+  type JobType,
+  type JobState,
+  type JobOptions,
+  type JobProgress,
+  type JobLogEntry,
+  type CloneStatus,
+} from "./jobs";
+export { startAutoFetchScheduler, getAutoFetchInterval } from "./scheduler";
+export {
+  getDiskUsageReport,
+  collectOrphanedClones,
+  removeUnusedArchive,
+  getEvictionPolicy,
+  planCloneEviction,
+  evictColdClones,
+  startCloneEviction,
+  type DiskUsageReport,
+  type CloneUsage,
+  type WorktreeUsage,
+  type CloneGcResult,
+  type EvictionPolicy,
+  type EvictionCandidate,
+  type EvictionPlan,
+} from "./storage";
+export {
+  listCredentials,
+  createCredential,
+  updateCredential,
+  deleteCredential,
+  findCredentialForUrl,
+  getGitAuthEnv,
+  hasEmbeddedCredentials,
+  type GitCredential,
+  type GitCredentialInput,
+  type MaskedGitCredential,
+} from "./credentials";
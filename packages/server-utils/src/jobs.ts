@@ -0,0 +1,780 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { env } from "@kinetic-context/env/server";
+import { ensureArchiveUnpacked, getArchivePackageName } from "./archive";
+import { updateClonePackageConfigs, writePackageConfig, type PackageConfig } from "./config";
+import { findPackageConfig, resolveDependencyRepo } from "./dependency";
+import {
+  ensureRepoCloned,
+  fetchRepository,
+  getCheckedOutBranch,
+  getDefaultBranch,
+  getRepoIdentifierFromUrl,
+  pullRepository,
+  type GitProgressEvent,
+} from "./git";
+import { logger } from "./logger";
+import { regenerateKctxHelper } from "./opencode";
+
+/**
+ * clone: clone a package's repository (and detect its default branch for "auto"),
+ * or download and unpack the default version of an archive package;
+ * pull: fetch branches and tags, then pull the clone's checked-out (default) branch;
+ * reindex: fetch all branches and tags so tag lists and version ranges are current;
+ * kctx_helper: generate the package's kctx_helper summary with OpenCode
+ */
+export type JobType = "clone" | "pull" | "reindex" | "kctx_helper";
+
+export type JobState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobLogEntry {
+  at: string;
+  level: "info" | "error";
+  message: string;
+}
+
+export interface JobProgress {
+  /** What the job is doing, e.g. git's "receiving" or "resolving" */
+  stage: string;
+  /** 0-100 when known */
+  percent?: number;
+  /** Objects (or deltas) done so far and in total, for git stages */
+  processed?: number;
+  total?: number;
+  /** Bytes received so far and the current rate, while git is receiving objects */
+  bytes?: number;
+  bytesPerSecond?: number;
+}
+
+export interface JobOptions {
+  /** kctx_helper: regenerate even if the package already has one */
+  force?: boolean;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  /** Package the job is for */
+  identifier: string;
+  state: JobState;
+  options: JobOptions;
+  /** Attempts started so far; failed attempts are retried up to maxAttempts */
+  attempts: number;
+  maxAttempts: number;
+  progress?: JobProgress;
+  logs: JobLogEntry[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** A queued retry waits until then */
+  notBefore?: string;
+  /**
+   * Jobs with the same resource never run at the same time: the shared clone for
+   * git jobs (so packages of one monorepo don't clone it twice), the package otherwise
+   */
+  resource: string;
+}
+
+export type CloneStatus = "pending" | "cloning" | "completed" | "error";
+
+interface JobContext {
+  signal: AbortSignal;
+  log: (message: string) => void;
+  progress: (progress: JobProgress) => void;
+}
+
+const JOB_TYPES: Record<
+  JobType,
+  {
+    maxAttempts: number;
+    concurrency: number;
+    /** Finishing the job is recorded as the packages' last_updated */
+    updatesRepo: boolean;
+    run: (job: Job, context: JobContext) => Promise<void>;
+  }
+> = {
+  clone: { maxAttempts: 3, concurrency: 2, updatesRepo: true, run: runCloneJob },
+  pull: { maxAttempts: 3, concurrency: 2, updatesRepo: true, run: runPullJob },
+  reindex: { maxAttempts: 3, concurrency: 2, updatesRepo: true, run: runReindexJob },
+  // OpenCode sessions are slow and costly; one at a time
+  kctx_helper: { maxAttempts: 2, concurrency: 1, updatesRepo: false, run: runKctxHelperJob },
+};
+
+const RETRY_BASE_DELAY_MS = 15 * 1000;
+const MAX_LOG_ENTRIES = 200;
+// Finished jobs kept for the jobs panel; older ones are dropped
+const MAX_FINISHED_JOBS = 200;
+// Progress updates are frequent; persist them at most this often
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+// Git progress is forwarded to watchers at most this often per stage
+const PROGRESS_REPORT_INTERVAL_MS = 250;
+
+const jobs = new Map<string, Job>();
+const running = new Map<string, AbortController>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let loaded: Promise<void> | null = null;
+// Set by startJobQueue in the one process that runs jobs (the HTTP server). Other
+// processes sharing JOBS_PATH, like the stdio MCP server, only read it: re-queueing its
+// running jobs or writing it from two processes would run clones twice.
+let ownsQueue = false;
+let saving: Promise<void> = Promise.resolve();
+let saveQueued = false;
+let progressSaveTimer: NodeJS.Timeout | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+
+function isActive(job: Job): boolean {
+  return job.state === "queued" || job.state === "running";
+}
+
+function touch(job: Job): void {
+  job.updatedAt = new Date().toISOString();
+  jobEvents.emit("change", job);
+}
+
+function appendLog(job: Job, level: JobLogEntry["level"], message: string): void {
+  job.logs.push({ at: new Date().toISOString(), level, message });
+  if (job.logs.length > MAX_LOG_ENTRIES) {
+    job.logs.splice(0, job.logs.length - MAX_LOG_ENTRIES);
+  }
+  const line = `${job.type} ${job.identifier} (${job.id}): ${message}`;
+  if (level === "error") {
+    logger.error("[jobs]", line);
+  } else {
+    logger.log("[jobs]", line);
+  }
+}
+
+/**
+ * Write all jobs to JOBS_PATH. Writes are serialized and coalesced, and go through
+ * a temporary file so a crash never leaves a truncated file behind.
+ */
+function save(): Promise<void> {
+  if (saveQueued) {
+    return saving;
+  }
+  saveQueued = true;
+  saving = saving.then(async () => {
+    saveQueued = false;
+    // Drop the oldest finished jobs
+    const finished = [...jobs.values()]
+      .filter((job) => !isActive(job))
+      .sort((a, b) => (b.finishedAt ?? b.updatedAt).localeCompare(a.finishedAt ?? a.updatedAt));
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      jobs.delete(job.id);
+    }
+    try {
+      await mkdir(dirname(env.JOBS_PATH), { recursive: true });
+      const tmpPath = `${env.JOBS_PATH}.tmp`;
+      await writeFile(tmpPath, JSON.stringify({ jobs: [...jobs.values()] }, null, 2), "utf-8");
+      await rename(tmpPath, env.JOBS_PATH);
+    } catch (error) {
+      logger.error("[jobs]", `Failed to save jobs to ${env.JOBS_PATH}:`, error);
+    }
+  });
+  return saving;
+}
+
+function saveProgressSoon(): void {
+  if (!progressSaveTimer) {
+    progressSaveTimer = setTimeout(() => {
+      progressSaveTimer = null;
+      void save();
+    }, PROGRESS_SAVE_INTERVAL_MS);
+    progressSaveTimer.unref();
+  }
+}
+
+async function readJobs(): Promise<Job[]> {
+  if (!existsSync(env.JOBS_PATH)) {
+    return [];
+  }
+  try {
+    const data = JSON.parse(await readFile(env.JOBS_PATH, "utf-8")) as { jobs?: Job[] };
+    return data.jobs ?? [];
+  } catch (error) {
+    logger.error("[jobs]", `Failed to read ${env.JOBS_PATH}; starting with no jobs:`, error);
+    return [];
+  }
+}
+
+async function load(): Promise<void> {
+  jobs.clear();
+  for (const job of await readJobs()) {
+    if (job.state === "running") {
+      // The process stopped mid-job; run it again without counting the attempt
+      job.state = "queued";
+      job.attempts = Math.max(0, job.attempts - 1);
+      job.progress = undefined;
+      appendLog(job, "info", "Interrupted by a server restart; queued again");
+    }
+    jobs.set(job.id, job);
+  }
+  await save();
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!ownsQueue) {
+    // The owning process may have changed the file since; show what it last wrote
+    return readJobs().then((current) => {
+      jobs.clear();
+      for (const job of current) {
+        jobs.set(job.id, job);
+      }
+    });
+  }
+  if (!loaded) {
+    loaded = load().then(() => pump());
+  }
+  return loaded;
+}
+
+function assertOwnsQueue(): void {
+  if (!ownsQueue) {
+    throw new Error("Jobs are run by the kinetic-context server; this process can only read them");
+  }
+}
+
+/**
+ * Start as many queued jobs as the limits allow: JOBS_CONCURRENCY overall, the
+ * job type's own limit, and one job per resource.
+ */
+function pump(): void {
+  const now = Date.now();
+  const runningJobs = [...jobs.values()].filter((job) => job.state === "running");
+  const busyResources = new Set(runningJobs.map((job) => job.resource));
+  const runningByType = new Map<JobType, number>();
+  for (const job of runningJobs) {
+    runningByType.set(job.type, (runningByType.get(job.type) ?? 0) + 1);
+  }
+
+  let nextRetryAt = Infinity;
+  const queued = [...jobs.values()]
+    .filter((job) => job.state === "queued")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of queued) {
+    if (runningJobs.length >= env.JOBS_CONCURRENCY) {
+      break;
+    }
+    const notBefore = job.notBefore ? Date.parse(job.notBefore) : 0;
+    if (notBefore > now) {
+      nextRetryAt = Math.min(nextRetryAt, notBefore);
+      continue;
+    }
+    if (
+      busyResources.has(job.resource) ||
+      (runningByType.get(job.type) ?? 0) >= JOB_TYPES[job.type].concurrency
+    ) {
+      continue;
+    }
+    busyResources.add(job.resource);
+    runningByType.set(job.type, (runningByType.get(job.type) ?? 0) + 1);
+    runningJobs.push(job);
+    void runJob(job);
+  }
+
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (nextRetryAt !== Infinity) {
+    retryTimer = setTimeout(pump, Math.max(0, nextRetryAt - Date.now()));
+    retryTimer.unref();
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const controller = new AbortController();
+  running.set(job.id, controller);
+  job.state = "running";
+  job.attempts++;
+  job.startedAt = new Date().toISOString();
+  job.finishedAt = undefined;
+  job.notBefore = undefined;
+  job.error = undefined;
+  job.progress = undefined;
+  appendLog(job, "info", `Attempt ${job.attempts} of ${job.maxAttempts} started`);
+  touch(job);
+  await save();
+
+  const context: JobContext = {
+    signal: controller.signal,
+    log: (message) => {
+      appendLog(job, "info", message);
+      touch(job);
+      saveProgressSoon();
+    },
+    progress: (progress) => {
+      job.progress = progress;
+      touch(job);
+      saveProgressSoon();
+    },
+  };
+
+  try {
+    await JOB_TYPES[job.type].run(job, context);
+    job.state = "succeeded";
+    job.progress = undefined;
+    appendLog(job, "info", "Succeeded");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    job.error = message;
+    job.progress = undefined;
+    if (controller.signal.aborted) {
+      job.state = "cancelled";
+      appendLog(job, "info", "Cancelled");
+    } else if (job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      job.state = "queued";
+      job.notBefore = new Date(Date.now() + delay).toISOString();
+      appendLog(job, "error", `${message}; retrying in ${Math.round(delay / 1000)}s`);
+    } else {
+      job.state = "failed";
+      appendLog(job, "error", message);
+    }
+  } finally {
+    running.delete(job.id);
+  }
+
+  if (!isActive(job)) {
+    job.finishedAt = new Date().toISOString();
+    // Before notifying watchers, so a refetch after the event sees it
+    await recordRepoUpdate(job).catch((error) => {
+      logger.error("[jobs]", `Failed to record last update of ${job.identifier}:`, error);
+    });
+  }
+  touch(job);
+  await save();
+  pump();
+}
+
+/**
+ * Record how a finished clone, pull or reindex went on every package sharing the
+ * clone (or on the archive package that was unpacked), so the UI can show how stale
+ * each one is. Cancelled jobs are not recorded.
+ */
+async function recordRepoUpdate(job: Job): Promise<void> {
+  if (!JOB_TYPES[job.type].updatesRepo || job.state === "cancelled" || !job.finishedAt) {
+    return;
+  }
+  const found = await findPackageConfig(job.identifier);
+  if (!found) {
+    return;
+  }
+  const lastUpdated: NonNullable<PackageConfig["last_updated"]> = {
+    at: job.finishedAt,
+    success: job.state === "succeeded",
+    ...(job.state === "failed" && job.error ? { error: job.error } : {}),
+  };
+  if (found.config.storage_type === "archive") {
+    await writePackageConfig(found.dir, { ...found.config, last_updated: lastUpdated });
+    return;
+  }
+  const gitUrl = found.config.urls.git;
+  if (found.config.storage_type !== "cloned" || !gitUrl) {
+    return;
+  }
+  const repoIdentifier = getRepoIdentifierFromUrl(gitUrl);
+
+  await updateClonePackageConfigs(env.PACKAGES_DIR, repoIdentifier, (pkg) => ({
+    ...pkg,
+    last_updated: lastUpdated,
+    // The clone is back on disk if it was evicted
+    ...(lastUpdated.success ? { evicted_at: undefined } : {}),
+  }));
+}
+
+/**
+ * Take ownership of the job queue: load persisted jobs and resume queued ones (jobs
+ * interrupted by a restart run again). Called once at HTTP server startup; without it,
+ * a process only reads JOBS_PATH and cannot queue, cancel or retry jobs.
+ */
+export async function startJobQueue(): Promise<void> {
+  ownsQueue = true;
+  await ensureLoaded();
+}
+
+/**
+ * Whether this process runs jobs (see startJobQueue).
+ */
+export function ownsJobQueue(): boolean {
+  return ownsQueue;
+}
+
+/**
+ * Queue a job for a package. If the same kind of job for the package is already queued
+ * or running, that job is returned instead of queueing a second one.
+ * Throws if the package does not exist or the job does not apply to it.
+ */
+export async function enqueueJob(
+  type: JobType,
+  identifier: string,
+  options: JobOptions = {},
+): Promise<Job> {
+  assertOwnsQueue();
+  await ensureLoaded();
+
+  const existing = [...jobs.values()].find(
+    (job) => job.type === type && job.identifier === identifier && isActive(job),
+  );
+  if (existing) {
+    if (options.force && !existing.options.force && existing.state === "queued") {
+      existing.options = { ...existing.options, force: true };
+      touch(existing);
+      await save();
+    }
+    return existing;
+  }
+
+  const found = await findPackageConfig(identifier);
+  if (!found) {
+    throw new Error(`Package "${identifier}" not found`);
+  }
+  let resource = `package:${identifier}`;
+  if (type === "clone" && found.config.storage_type === "archive" && found.config.archive) {
+    // Packages unpacking the same registry package share its directory
+    resource = `archive:${found.config.archive.source}/${getArchivePackageName(found.config)}`;
+  } else if (type !== "kctx_helper") {
+    const gitUrl = found.config.urls.git;
+    if (found.config.storage_type !== "cloned" || !gitUrl) {
+      throw new Error(`Package "${identifier}" is not a cloned repository`);
+    }
+    resource = `repo:${getRepoIdentifierFromUrl(gitUrl)}`;
+  }
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type,
+    identifier,
+    state: "queued",
+    options,
+    attempts: 0,
+    maxAttempts: JOB_TYPES[type].maxAttempts,
+    logs: [],
+    createdAt: now,
+    updatedAt: now,
+    resource,
+  };
+  appendLog(job, "info", "Queued");
+  jobs.set(job.id, job);
+  touch(job);
+  await save();
+  pump();
+  return job;
+}
+
+/**
+ * Jobs, newest first, optionally filtered.
+ */
+export async function listJobs(
+  filter: { type?: JobType; state?: JobState; identifier?: string } = {},
+): Promise<Job[]> {
+  await ensureLoaded();
+  return [...jobs.values()]
+    .filter(
+      (job) =>
+        (!filter.type || job.type === filter.type) &&
+        (!filter.state || job.state === filter.state) &&
+        (!filter.identifier || job.identifier === filter.identifier),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  await ensureLoaded();
+  return jobs.get(id) ?? null;
+}
+
+/**
+ * Cancel a queued or running job (running git and OpenCode processes are stopped).
+ * Returns null if the job does not exist; finished jobs are returned unchanged.
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  assertOwnsQueue();
+  await ensureLoaded();
+  const job = jobs.get(id);
+  if (!job) {
+    return null;
+  }
+  if (job.state === "running") {
+    // runJob records the cancellation once the process has stopped
+    running.get(id)?.abort();
+  } else if (job.state === "queued") {
+    job.state = "cancelled";
+    job.notBefore = undefined;
+    job.finishedAt = new Date().toISOString();
+    appendLog(job, "info", "Cancelled");
+    touch(job);
+    await save();
+    pump();
+  }
+  return job;
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts.
+ * Returns null if the job does not exist; queued and running jobs are returned unchanged.
+ */
+export async function retryJob(id: string): Promise<Job | null> {
+  assertOwnsQueue();
+  await ensureLoaded();
+  const job = jobs.get(id);
+  if (!job) {
+    return null;
+  }
+  if (job.state === "failed" || job.state === "cancelled") {
+    job.state = "queued";
+    job.attempts = 0;
+    job.error = undefined;
+    job.notBefore = undefined;
+    job.finishedAt = undefined;
+    appendLog(job, "info", "Queued again by request");
+    touch(job);
+    await save();
+    pump();
+  }
+  return job;
+}
+
+/**
+ * Cancel every queued or running job of a package, e.g. when it is deleted.
+ */
+export async function cancelPackageJobs(identifier: string): Promise<void> {
+  for (const job of await listJobs({ identifier })) {
+    if (isActive(job)) {
+      await cancelJob(job.id);
+    }
+  }
+}
+
+/**
+ * Resolve once a job has finished (succeeded, failed or cancelled).
+ */
+export async function waitForJob(id: string): Promise<Job> {
+  const job = await getJob(id);
+  if (!job) {
+    throw new Error(`Job "${id}" not found`);
+  }
+  if (!isActive(job)) {
+    return job;
+  }
+  return new Promise((resolve) => {
+    const onChange = (changed: Job) => {
+      if (changed.id === id && !isActive(changed)) {
+        jobEvents.off("change", onChange);
+        resolve(changed);
+      }
+    };
+    jobEvents.on("change", onChange);
+  });
+}
+
+/**
+ * Yield jobs matching the filter as they change (queued, started, progress, logs,
+ * finished), starting with the ones currently queued or running, until the signal
+ * aborts. A consumer that falls behind gets only the latest state of each job.
+ */
+export async function* watchJobs(
+  filter: { type?: JobType; identifier?: string } = {},
+  signal?: AbortSignal,
+): AsyncGenerator<Job> {
+  const active = (await listJobs(filter)).filter(isActive).reverse();
+  const pending = new Map<string, Job>(active.map((job) => [job.id, job]));
+  let wake: (() => void) | null = null;
+
+  const onChange = (job: Job) => {
+    if (
+      (!filter.type || job.type === filter.type) &&
+      (!filter.identifier || job.identifier === filter.identifier)
+    ) {
+      // Re-insert so the map stays in order of the latest change
+      pending.delete(job.id);
+      pending.set(job.id, job);
+      wake?.();
+    }
+  };
+  const onAbort = () => wake?.();
+
+  jobEvents.on("change", onChange);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    while (!signal?.aborted) {
+      if (pending.size === 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+        continue;
+      }
+      const [id, job] = pending.entries().next().value as [string, Job];
+      pending.delete(id);
+      yield job;
+    }
+  } finally {
+    jobEvents.off("change", onChange);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Clone status of a package, from its latest clone job. Packages without one
+ * (local packages, or clones made before jobs were persisted) are "completed".
+ */
+export async function getCloneStatus(identifier: string): Promise<CloneStatus> {
+  const [latest] = await listJobs({ type: "clone", identifier });
+  return toCloneStatus(latest);
+}
+
+/**
+ * Clone status reported while a clone job is in the given state.
+ */
+export function toCloneStatus(job: Job | undefined): CloneStatus {
+  switch (job?.state) {
+    case "queued":
+      return "pending";
+    case "running":
+      return "cloning";
+    case "failed":
+    case "cancelled":
+      return "error";
+    default:
+      return "completed";
+  }
+}
+
+/**
+ * Forward git progress to the job, at most a few times a second: git writes a line
+ * for every percent, and each update is sent to everyone watching the job.
+ */
+function reportGitProgress(context: JobContext) {
+  let last: GitProgressEvent | null = null;
+  let lastReportedAt = 0;
+  return (event: GitProgressEvent) => {
+    const now = Date.now();
+    if (last?.stage === event.stage) {
+      // Always report reaching 100%, but only once (git repeats it with ", done.")
+      const finishing = event.percent === 100 && last.percent !== 100;
+      if (!finishing && (event.percent === 100 || now - lastReportedAt < PROGRESS_REPORT_INTERVAL_MS)) {
+        return;
+      }
+    }
+    last = event;
+    lastReportedAt = now;
+    context.progress(event);
+  };
+}
+
+async function findClonedPackage(identifier: string) {
+  const found = await findPackageConfig(identifier);
+  if (!found) {
+    throw new Error(`Package "${identifier}" not found`);
+  }
+  const gitUrl = found.config.urls.git;
+  if (found.config.storage_type !== "cloned" || !gitUrl) {
+    throw new Error(`Package "${identifier}" is not a cloned repository`);
+  }
+  return {
+    config: found.config,
+    gitUrl,
+    repoPath: join(env.PACKAGES_DIR, getRepoIdentifierFromUrl(gitUrl)),
+  };
+}
+
+async function runCloneJob(job: Job, context: JobContext): Promise<void> {
+  const found = await findPackageConfig(job.identifier);
+  if (found?.config.storage_type === "archive") {
+    context.progress({ stage: "downloading" });
+    const { path, version } = await ensureArchiveUnpacked(found.config, found.config.default_tag);
+    context.log(`Unpacked ${version} into ${path}`);
+    return;
+  }
+  const { config, gitUrl, repoPath: expectedPath } = await findClonedPackage(job.identifier);
+  context.log(
+    existsSync(expectedPath) ? `Using the existing clone at ${expectedPath}` : `Cloning ${gitUrl}`,
+  );
+  // The clone is keyed by git URL so packages from the same repo share it
+  const repoPath = await ensureRepoCloned(env.PACKAGES_DIR, gitUrl, {
+    onProgress: reportGitProgress(context),
+    signal: context.signal,
+  });
+
+  const updated = { ...config, repo_path: repoPath };
+  if (config.default_tag === "auto") {
+    updated.default_tag = await getDefaultBranch(repoPath);
+    context.log(`Detected default branch ${updated.default_tag}`);
+  }
+  // No checkout here: tags are read from per-tag worktrees of the shared clone
+  if (updated.repo_path !== config.repo_path || updated.default_tag !== config.default_tag) {
+    await writePackageConfig(env.PACKAGES_DIR, updated);
+  }
+}
+
+async function runPullJob(job: Job, context: JobContext): Promise<void> {
+  const { repoPath } = await findClonedPackage(job.identifier);
+  if (!existsSync(repoPath)) {
+    throw new Error(`Repository is not cloned yet: ${repoPath}`);
+  }
+  // git pull only fetches the tags on the pulled branch; fetch them all first
+  context.log(`Fetching branches and tags into ${repoPath}`);
+  await fetchRepository(repoPath, {
+    onProgress: reportGitProgress(context),
+    signal: context.signal,
+  });
+  if (!(await getCheckedOutBranch(repoPath))) {
+    // Clones made by older versions may be left at a tag; worktrees read the fetched origin refs
+    context.log("The clone is not on a branch; skipping the pull");
+    return;
+  }
+  context.log(`Pulling ${repoPath}`);
+  const result = await pullRepository(repoPath, {
+    onProgress: reportGitProgress(context),
+    signal: context.signal,
+  });
+  if (!result.success) {
+    throw new Error(result.error ?? "Pull failed");
+  }
+}
+
+async function runReindexJob(job: Job, context: JobContext): Promise<void> {
+  const { repoPath } = await findClonedPackage(job.identifier);
+  if (!existsSync(repoPath)) {
+    throw new Error(`Repository is not cloned yet: ${repoPath}`);
+  }
+  context.log(`Fetching branches and tags into ${repoPath}`);
+  await fetchRepository(repoPath, {
+    onProgress: reportGitProgress(context),
+    signal: context.signal,
+  });
+}
+
+async function runKctxHelperJob(job: Job, context: JobContext): Promise<void> {
+  const resolved = await resolveDependencyRepo(job.identifier);
+  if (!resolved) {
+    throw new Error(`Package "${job.identifier}" not found`);
+  }
+  try {
+    if (!job.options.force && (resolved.packageConfig.kctx_helper ?? "").trim() !== "") {
+      context.log("Package already has a kctx_helper; nothing to do");
+      return;
+    }
+    context.progress({ stage: "summarizing" });
+    context.log(
+      `Asking OpenCode to summarize ${resolved.repoPath}${resolved.tag ? ` at ${resolved.tag}` : ""}`,
+    );
+    await regenerateKctxHelper(
+      resolved.packagesDir,
+      job.identifier,
+      resolved.repoPath,
+      context.signal,
+    );
+  } finally {
+    resolved.release();
+  }
+}
@@ -29,6 +29,16 @@ function formatMessage(prefix: string, ...args: unknown[]): unknown[] {
   return [prefixWithTimestamp, ...args];
 }
 
+// stdout is the protocol channel for the stdio MCP server, so logs must not go there
+let logToStderr = false;
+
+/**
+ * Send logger.log output to stderr instead of stdout.
+ */
+export function redirectLogsToStderr(): void {
+  logToStderr = true;
+}
+
 export const logger = {
   /**
    * Logs a message with timestamp
@@ -36,6 +46,10 @@ export const logger = {
    * @param args - Arguments to pass to console.log
    */
   log(prefix: string, ...args: unknown[]): void {
+    if (logToStderr) {
+      console.error(...formatMessage(prefix, ...args));
+      return;
+    }
     console.log(...formatMessage(prefix, ...args));
   },
 
@@ -0,0 +1,716 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { env } from "@kinetic-context/env/server";
+import {
+  listPackageConfigs,
+  type PackageConfig,
+  type ProjectDependency,
+} from "./config";
+import { resolveTagSpec } from "./dependency";
+import { getRepoIdentifierFromUrl } from "./git";
+import { parseRange } from "./semver";
+
+export type Ecosystem = "npm" | "cargo" | "go" | "pypi";
+
+export interface DeclaredDependency {
+  name: string;
+  ecosystem: Ecosystem;
+  /** Installed version from a lockfile, otherwise the version or range from the manifest */
+  version?: string;
+  /** Whether `version` is the installed one (lockfile, go.mod or a pinned requirement) */
+  locked: boolean;
+  /** Git URL, when the manifest points at a repository (or node_modules says where it lives) */
+  gitUrl?: string;
+  /** File the dependency was found in, relative to the project root */
+  source: string;
+}
+
+export interface DependencyProposal {
+  /** Package config the dependency matched */
+  identifier: string;
+  /** Tag to record; undefined keeps the package's default_tag */
+  tag?: string;
+  /** Tag a declared range matches in the clone today; shown only, the range is recorded */
+  resolvedTag?: string;
+  name: string;
+  ecosystem: Ecosystem;
+  version?: string;
+  /** Whether `version` is the installed one rather than a declared range */
+  locked: boolean;
+  source: string;
+  matchedBy: "name" | "git_url";
+  /** add: not in the project yet; update: listed with a different tag; unchanged: nothing to do */
+  action: "add" | "update" | "unchanged";
+  currentTag?: string;
+}
+
+const MANIFEST_FILES = [
+  "package.json",
+  "pnpm-lock.yaml",
+  "package-lock.json",
+  "Cargo.toml",
+  "Cargo.lock",
+  "go.mod",
+  "pyproject.toml",
+  "requirements.txt",
+];
+
+const SKIPPED_DIRS = new Set([
+  "node_modules",
+  ".git",
+  "vendor",
+  "target",
+  "dist",
+  "build",
+  ".next",
+  ".cache",
+  ".venv",
+  "venv",
+  "__pycache__",
+]);
+
+// Workspace packages (packages/*, crates/*, ...) are rarely deeper than this
+const MAX_MANIFEST_DEPTH = 3;
+
+/**
+ * Find dependency manifests and lockfiles in a project, relative to its root.
+ */
+export async function findManifestFiles(projectPath: string): Promise<string[]> {
+  const found: string[] = [];
+
+  async function scan(dir: string, depth: number): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < MAX_MANIFEST_DEPTH && !SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith(".")) {
+          await scan(fullPath, depth + 1);
+        }
+      } else if (MANIFEST_FILES.includes(entry.name)) {
+        found.push(relative(projectPath, fullPath));
+      }
+    }
+  }
+
+  await scan(projectPath, 0);
+  return found.sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b));
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, "$2");
+}
+
+function stripComment(line: string): string {
+  return line.replace(/\s+#.*$/, "").replace(/^#.*$/, "");
+}
+
+/**
+ * Git URL from an npm dependency spec ("github:owner/repo#v1", "git+https://...", "owner/repo")
+ */
+function npmSpecGitUrl(spec: string): string | undefined {
+  const withoutRef = spec.replace(/#.*$/, "");
+  const shorthand = /^(?:(github|gitlab|bitbucket):)?([\w.-]+)\/([\w.-]+)$/.exec(withoutRef);
+  if (shorthand && !spec.startsWith("@")) {
+    const host = { github: "github.com", gitlab: "gitlab.com", bitbucket: "bitbucket.org" }[
+      (shorthand[1] ?? "github") as "github" | "gitlab" | "bitbucket"
+    ];
+    return `https://${host}/${shorthand[2]}/${shorthand[3]}`;
+  }
+  if (/^git(\+\w+)?:|^https?:.*\.git$/.test(withoutRef)) {
+    return withoutRef.replace(/^git\+/, "");
+  }
+  return undefined;
+}
+
+function parsePackageJson(content: string, source: string): DeclaredDependency[] {
+  const json = JSON.parse(content) as Record<string, unknown>;
+  const dependencies: DeclaredDependency[] = [];
+  for (const field of ["dependencies", "devDependencies", "optionalDependencies"]) {
+    const section = json[field];
+    if (!section || typeof section !== "object") continue;
+    for (const [name, rawSpec] of Object.entries(section as Record<string, unknown>)) {
+      if (typeof rawSpec !== "string") continue;
+      // Packages of the same workspace or on disk are not dependencies to look up
+      if (/^(workspace|file|link|portal):/.test(rawSpec)) continue;
+      const spec = rawSpec.replace(/^npm:.*@(?=[^@]*$)/, "");
+      const gitUrl = npmSpecGitUrl(spec);
+      dependencies.push({
+        name,
+        ecosystem: "npm",
+        version: gitUrl || spec.startsWith("catalog:") ? undefined : spec,
+        locked: false,
+        gitUrl,
+        source,
+      });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Installed versions of the direct dependencies of every importer (workspace package)
+ * in a pnpm lockfile. Handles the v5 layout (name: version) and v6+ (name: {specifier, version}).
+ */
+function parsePnpmLock(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  const depSections = new Set(["dependencies", "devDependencies", "optionalDependencies"]);
+  const path: Array<{ indent: number; key: string }> = [];
+
+  for (const rawLine of content.split("\n")) {
+    const line = stripComment(rawLine);
+    const match = /^(\s*)(?:'([^']+)'|"([^"]+)"|([^\s:'"][^:]*)):\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const indent = match[1]!.length;
+    const key = match[2] ?? match[3] ?? match[4]!;
+    const value = unquote(match[5] ?? "");
+    while (path.length > 0 && path[path.length - 1]!.indent >= indent) {
+      path.pop();
+    }
+
+    // Only top-level dependency sections and importers, not the `packages`/`snapshots` graph
+    const root = path[0]?.key;
+    if (root !== undefined && root !== "importers" && !depSections.has(root)) {
+      continue;
+    }
+    const parent = path[path.length - 1]?.key;
+    const grandparent = path[path.length - 2]?.key;
+    let name: string | undefined;
+    let version: string | undefined;
+    if (value && parent && depSections.has(parent) && path.length <= 3) {
+      name = key;
+      version = value;
+    } else if (key === "version" && value && grandparent && depSections.has(grandparent)) {
+      name = parent;
+      version = value;
+    }
+    if (name && version && !/^(link|file|workspace):/.test(version)) {
+      // "3.22.4(react@18.2.0)" -> "3.22.4"
+      const cleaned = version.replace(/\(.*$/, "");
+      dependencies.push({
+        name,
+        ecosystem: "npm",
+        version: /^\d/.test(cleaned) ? cleaned : undefined,
+        locked: true,
+        gitUrl: /^\d/.test(cleaned) ? undefined : npmSpecGitUrl(cleaned),
+        source,
+      });
+    }
+    if (!value) {
+      path.push({ indent, key });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Installed versions from package-lock.json (hoisted packages only; the caller keeps
+ * the ones package.json declares)
+ */
+function parsePackageLock(content: string, source: string): DeclaredDependency[] {
+  const json = JSON.parse(content) as {
+    packages?: Record<string, { version?: string; resolved?: string }>;
+    dependencies?: Record<string, { version?: string }>;
+  };
+  const dependencies: DeclaredDependency[] = [];
+
+  // lockfileVersion 2/3 key by path, 1 by name
+  const entries = json.packages
+    ? Object.entries(json.packages).flatMap(([path, entry]) => {
+        const name = /^node_modules\/((?:@[^/]+\/)?[^/]+)$/.exec(path)?.[1];
+        return name ? [[name, entry] as const] : [];
+      })
+    : Object.entries(json.dependencies ?? {});
+  for (const [name, entry] of entries) {
+    if (!entry.version) continue;
+    const resolved = "resolved" in entry ? entry.resolved : undefined;
+    const gitUrl = resolved?.startsWith("git") ? npmSpecGitUrl(resolved) : undefined;
+    dependencies.push({
+      name,
+      ecosystem: "npm",
+      version: /^\d/.test(entry.version) ? entry.version : undefined,
+      locked: true,
+      gitUrl,
+      source,
+    });
+  }
+  return dependencies;
+}
+
+/**
+ * Value of `key = "..."` inside an inline TOML table
+ */
+function inlineTableValue(table: string, key: string): string | undefined {
+  return new RegExp(`(?:^|[{,\\s])${key}\\s*=\\s*"([^"]*)"`).exec(table)?.[1];
+}
+
+/**
+ * Sections of a TOML file as [header, lines], enough for dependency tables.
+ */
+function tomlSections(content: string): Array<{ header: string; lines: string[] }> {
+  const sections: Array<{ header: string; lines: string[] }> = [{ header: "", lines: [] }];
+  for (const rawLine of content.split("\n")) {
+    const line = stripComment(rawLine).trim();
+    const header = /^\[\[?([^\]]+)\]\]?$/.exec(line);
+    if (header) {
+      sections.push({ header: header[1]!.trim(), lines: [] });
+    } else if (line) {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function parseCargoToml(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  const isDepTable = (header: string) =>
+    /(^|\.)(dependencies|dev-dependencies|build-dependencies)$/.test(header);
+
+  for (const { header, lines } of tomlSections(content)) {
+    if (isDepTable(header)) {
+      for (const line of lines) {
+        const entry = /^([\w-]+)(\.workspace)?\s*=\s*(.+)$/.exec(line);
+        if (!entry || entry[2]) continue;
+        const value = entry[3]!;
+        if (value.startsWith("{")) {
+          if (/workspace\s*=\s*true/.test(value) || inlineTableValue(value, "path")) continue;
+          const git = inlineTableValue(value, "git");
+          dependencies.push({
+            name: inlineTableValue(value, "package") ?? entry[1]!,
+            ecosystem: "cargo",
+            version: git ? undefined : inlineTableValue(value, "version"),
+            locked: false,
+            gitUrl: git,
+            source,
+          });
+        } else {
+          dependencies.push({ name: entry[1]!, ecosystem: "cargo", version: unquote(value), locked: false, source });
+        }
+      }
+    } else {
+      // [dependencies.serde] table form
+      const table = /^(?:.*\.)?(?:dependencies|dev-dependencies|build-dependencies)\.([\w-]+)$/.exec(header);
+      if (!table) continue;
+      const body = `{ ${lines.join(", ")} }`;
+      if (/workspace\s*=\s*true/.test(body) || inlineTableValue(body, "path")) continue;
+      const git = inlineTableValue(body, "git");
+      dependencies.push({
+        name: inlineTableValue(body, "package") ?? table[1]!,
+        ecosystem: "cargo",
+        version: git ? undefined : inlineTableValue(body, "version"),
+        locked: false,
+        gitUrl: git,
+        source,
+      });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * name -> version for every [[package]] in a Cargo.lock (the caller picks the direct ones)
+ */
+function parseCargoLock(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  for (const { header, lines } of tomlSections(content)) {
+    if (header !== "package") continue;
+    const body = `{ ${lines.join(", ")} }`;
+    const name = inlineTableValue(body, "name");
+    const version = inlineTableValue(body, "version");
+    const packageSource = inlineTableValue(body, "source");
+    if (!name || !version) continue;
+    const gitUrl = packageSource?.startsWith("git+")
+      ? packageSource.slice(4).replace(/[?#].*$/, "")
+      : undefined;
+    dependencies.push({ name, ecosystem: "cargo", version, locked: true, gitUrl, source });
+  }
+  return dependencies;
+}
+
+/**
+ * Repository URL of a Go module on a well-known host (github.com/owner/repo/v2 -> https://github.com/owner/repo)
+ */
+function goModuleGitUrl(modulePath: string): string | undefined {
+  const match = /^(github\.com|gitlab\.com|bitbucket\.org)\/([^/]+)\/([^/]+)/.exec(modulePath);
+  return match ? `https://${match[1]}/${match[2]}/${match[3]}` : undefined;
+}
+
+function parseGoMod(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  let inRequire = false;
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (/^require\s*\($/.test(line)) {
+      inRequire = true;
+      continue;
+    }
+    if (inRequire && line === ")") {
+      inRequire = false;
+      continue;
+    }
+    const requirement = inRequire ? line : /^require\s+(.+)$/.exec(line)?.[1];
+    if (!requirement || requirement.includes("// indirect")) continue;
+    const match = /^(\S+)\s+(v\S+)/.exec(requirement);
+    if (!match) continue;
+    const version = match[2]!.replace(/\+incompatible$/, "");
+    // Pseudo-versions (v0.0.0-20240101000000-abcdef123456) are commits, not tags
+    const pseudo = /-\d{14}-[0-9a-f]{12}$/.test(version);
+    dependencies.push({
+      name: match[1]!,
+      ecosystem: "go",
+      version: pseudo ? undefined : version,
+      locked: true,
+      gitUrl: goModuleGitUrl(match[1]!),
+      source,
+    });
+  }
+  return dependencies;
+}
+
+/**
+ * PEP 508 requirement: "requests[socks]>=2.31,<3; python_version>'3.8'" or "pkg @ git+https://..."
+ */
+function parsePythonRequirement(requirement: string, source: string): DeclaredDependency | null {
+  const withoutMarkers = requirement.split(";")[0]!.trim();
+  const direct = /^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*@\s*(\S+)$/.exec(withoutMarkers);
+  if (direct) {
+    const url = direct[2]!.replace(/^git\+/, "").replace(/@[^@/]*$/, "");
+    return { name: direct[1]!, ecosystem: "pypi", locked: false, gitUrl: url, source };
+  }
+  const match = /^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(.*)$/.exec(withoutMarkers);
+  if (!match) return null;
+  const spec = match[2]!.replace(/^\(|\)$/g, "").trim();
+  return { name: match[1]!, ecosystem: "pypi", version: spec || undefined, locked: false, source };
+}
+
+function parseRequirementsTxt(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = stripComment(rawLine).trim();
+    if (!line) continue;
+    // "git+https://host/repo.git@v1.0#egg=name" (optionally after -e)
+    const vcs = /^(?:-e\s+)?git\+(\S+?)(?:@[^#\s]*)?#egg=([\w.-]+)/.exec(line);
+    if (vcs) {
+      dependencies.push({ name: vcs[2]!, ecosystem: "pypi", locked: false, gitUrl: vcs[1], source });
+      continue;
+    }
+    if (line.startsWith("-")) continue;
+    const requirement = parsePythonRequirement(line, source);
+    if (requirement) {
+      // Pinned requirements files (pip freeze) are effectively lockfiles
+      dependencies.push({ ...requirement, locked: /^==\s*[\d.]+$/.test(requirement.version ?? "") });
+    }
+  }
+  return dependencies;
+}
+
+function parsePyproject(content: string, source: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  for (const { header, lines } of tomlSections(content)) {
+    if (header === "project" || header === "project.optional-dependencies") {
+      // PEP 621 arrays of requirement strings, possibly spanning lines
+      const body = lines.join("\n");
+      // The closing bracket ends a line; "pkg[extra]" brackets don't
+      const arrays = header === "project"
+        ? [/(?:^|\n)dependencies\s*=\s*\[([\s\S]*?)\](?=\s*(?:\n|$))/.exec(body)?.[1]]
+        : [...body.matchAll(/=\s*\[([\s\S]*?)\](?=\s*(?:\n|$))/g)].map((match) => match[1]);
+      for (const array of arrays) {
+        for (const item of array?.matchAll(/"([^"]+)"|'([^']+)'/g) ?? []) {
+          const requirement = parsePythonRequirement(item[1] ?? item[2]!, source);
+          if (requirement) dependencies.push(requirement);
+        }
+      }
+    } else if (/^tool\.poetry\.(group\.[\w-]+\.)?(dev-)?dependencies$/.test(header)) {
+      for (const line of lines) {
+        const entry = /^"?([\w.-]+)"?\s*=\s*(.+)$/.exec(line);
+        if (!entry || entry[1] === "python") continue;
+        const value = entry[2]!;
+        if (value.startsWith("{")) {
+          if (inlineTableValue(value, "path")) continue;
+          const git = inlineTableValue(value, "git");
+          dependencies.push({
+            name: entry[1]!,
+            ecosystem: "pypi",
+            version: git ? undefined : inlineTableValue(value, "version"),
+            locked: false,
+            gitUrl: git,
+            source,
+          });
+        } else {
+          dependencies.push({ name: entry[1]!, ecosystem: "pypi", version: unquote(value), locked: false, source });
+        }
+      }
+    }
+  }
+  return dependencies;
+}
+
+const PARSERS: Record<string, (content: string, source: string) => DeclaredDependency[]> = {
+  "package.json": parsePackageJson,
+  "pnpm-lock.yaml": parsePnpmLock,
+  "package-lock.json": parsePackageLock,
+  "Cargo.toml": parseCargoToml,
+  "Cargo.lock": parseCargoLock,
+  "go.mod": parseGoMod,
+  "pyproject.toml": parsePyproject,
+  "requirements.txt": parseRequirementsTxt,
+};
+
+// Lockfiles that list transitive dependencies too; only entries a manifest declares are kept
+const FULL_LOCKFILES = new Set(["package-lock.json", "Cargo.lock"]);
+
+function dependencyKey(ecosystem: Ecosystem, name: string): string {
+  // PyPI names are case-insensitive and treat -, _ and . alike
+  const normalized = ecosystem === "pypi" ? name.toLowerCase().replace(/[-_.]+/g, "-") : name;
+  return `${ecosystem}:${normalized}`;
+}
+
+/**
+ * Repository URL an installed npm package declares in node_modules/<name>/package.json
+ */
+async function readInstalledRepository(projectPath: string, name: string): Promise<string | undefined> {
+  try {
+    const content = await readFile(join(projectPath, "node_modules", name, "package.json"), "utf-8");
+    const repository = (JSON.parse(content) as { repository?: string | { url?: string } }).repository;
+    const url = typeof repository === "string" ? repository : repository?.url;
+    return url ? npmSpecGitUrl(url) ?? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a project's direct dependencies from its manifests and lockfiles. Installed
+ * versions from lockfiles win over the ranges declared in manifests.
+ */
+export async function readProjectManifests(
+  projectPath: string,
+): Promise<{ files: string[]; dependencies: DeclaredDependency[] }> {
+  const files = await findManifestFiles(projectPath);
+  const declared = new Map<string, DeclaredDependency>();
+  const locked: DeclaredDependency[] = [];
+  const lockfileEntries: DeclaredDependency[] = [];
+
+  for (const file of files) {
+    const name = file.split("/").pop()!;
+    let parsed: DeclaredDependency[];
+    try {
+      parsed = PARSERS[name]!(await readFile(join(projectPath, file), "utf-8"), file);
+    } catch {
+      // A malformed file shouldn't hide the others
+      continue;
+    }
+    for (const dependency of parsed) {
+      if (FULL_LOCKFILES.has(name)) {
+        lockfileEntries.push(dependency);
+      } else if (dependency.locked) {
+        locked.push(dependency);
+      } else {
+        const key = dependencyKey(dependency.ecosystem, dependency.name);
+        if (!declared.has(key)) {
+          declared.set(key, dependency);
+        }
+      }
+    }
+  }
+
+  // Locked entries of direct dependencies (pnpm importers, go.mod, pinned requirements) are
+  // dependencies in their own right; full lockfiles only supply versions for declared ones
+  for (const dependency of locked) {
+    declared.set(dependencyKey(dependency.ecosystem, dependency.name), dependency);
+  }
+  for (const dependency of lockfileEntries) {
+    const key = dependencyKey(dependency.ecosystem, dependency.name);
+    const existing = declared.get(key);
+    if (existing && !existing.locked) {
+      declared.set(key, { ...dependency, gitUrl: dependency.gitUrl ?? existing.gitUrl });
+    }
+  }
+
+  const dependencies = [...declared.values()];
+  await Promise.all(
+    dependencies.map(async (dependency) => {
+      if (dependency.ecosystem === "npm" && !dependency.gitUrl) {
+        dependency.gitUrl = await readInstalledRepository(projectPath, dependency.name);
+      }
+    }),
+  );
+
+  return { files, dependencies };
+}
+
+/**
+ * Ecosystem a package config belongs to, from its package_manager
+ */
+function packageEcosystem(packageManager: string): Ecosystem | null {
+  const manager = packageManager.toLowerCase();
+  if (["npm", "pnpm", "yarn", "bun", "deno"].includes(manager)) return "npm";
+  if (manager === "cargo") return "cargo";
+  if (manager === "go") return "go";
+  if (["pip", "pypi", "poetry", "uv", "pipenv", "conda"].includes(manager)) return "pypi";
+  return null;
+}
+
+/**
+ * Turn a declared version into a tag spec understood by resolveTagSpec, or undefined
+ * if it can't be expressed (e.g. "!=" constraints or git references).
+ */
+export function toTagSpec(
+  dependency: Pick<DeclaredDependency, "ecosystem" | "version" | "locked">,
+): string | undefined {
+  let spec = dependency.version?.trim();
+  if (!spec) return undefined;
+  if (dependency.ecosystem === "cargo" && /^\d/.test(spec) && !dependency.locked) {
+    // Cargo's bare "1.2" means "^1.2"
+    spec = `^${spec}`;
+  } else if (dependency.ecosystem === "pypi") {
+    spec = spec
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => !part.startsWith("!="))
+      .map((part) => {
+        const compatible = /^~=\s*(.+)$/.exec(part);
+        if (compatible) {
+          // ~=1.4.2 allows 1.4.x, ~=1.4 allows 1.x
+          return compatible[1]!.split(".").length > 2 ? `~${compatible[1]}` : `^${compatible[1]}`;
+        }
+        return part.replace(/^===?/, "=");
+      })
+      .join(" ");
+  } else {
+    spec = spec.replace(/,\s*/g, " ");
+  }
+  return spec && parseRange(spec) ? spec : undefined;
+}
+
+/**
+ * Find the package config a declared dependency refers to: same git repository first,
+ * then same name (identifier or display name, scoped npm names also as "scope-name").
+ */
+function matchPackage(
+  dependency: DeclaredDependency,
+  packages: PackageConfig[],
+): { config: PackageConfig; matchedBy: "name" | "git_url" } | null {
+  const candidates = packages.filter((config) => {
+    const ecosystem = packageEcosystem(config.package_manager);
+    return ecosystem === null || ecosystem === dependency.ecosystem;
+  });
+
+  if (dependency.gitUrl) {
+    const repo = getRepoIdentifierFromUrl(dependency.gitUrl);
+    const byUrl = candidates.filter((config) =>
+      [config.urls.git, config.urls.git_browser].some(
+        (url) => url && getRepoIdentifierFromUrl(url) === repo,
+      ),
+    );
+    // A monorepo holds several packages; the name decides between them
+    const byUrlAndName = byUrl.find((config) => namesMatch(dependency, config));
+    if (byUrlAndName || byUrl.length === 1) {
+      return { config: byUrlAndName ?? byUrl[0]!, matchedBy: "git_url" };
+    }
+  }
+
+  const byName = candidates.find((config) => namesMatch(dependency, config));
+  return byName ? { config: byName, matchedBy: "name" } : null;
+}
+
+function namesMatch(dependency: DeclaredDependency, config: PackageConfig): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[-_.]+/g, "-");
+  const name = normalize(dependency.name);
+  const names = new Set([name, normalize(dependency.name.replace(/^@/, "").replace("/", "-"))]);
+  if (dependency.ecosystem === "go") {
+    // github.com/spf13/cobra -> cobra
+    names.add(normalize(dependency.name.replace(/\/v\d+$/, "").split("/").pop()!));
+  }
+  return names.has(normalize(config.identifier)) || names.has(normalize(config.display_name));
+}
+
+/**
+ * Propose ProjectDependency entries for a project checkout: read its manifests, match
+ * dependencies to configured packages and map installed versions to tags. For cloned
+ * packages whose repository is already on disk, an installed version is resolved to the
+ * tag that exists (e.g. "3.22.4" -> "v3.22.4"). Declared ranges (e.g. "^4.1") are proposed
+ * as written so they keep resolving to the newest match at query time, with today's match
+ * as resolvedTag. Nothing is written; apply proposals with updateDependencies.
+ */
+export async function proposeProjectDependencies(
+  projectPath: string,
+  currentDependencies: ProjectDependency[] = [],
+): Promise<{
+  files: string[];
+  proposals: DependencyProposal[];
+  unmatched: DeclaredDependency[];
+}> {
+  const { files, dependencies } = await readProjectManifests(projectPath);
+  const packages = [
+    ...(await listPackageConfigs(env.PACKAGES_DIR)),
+    ...(await listPackageConfigs(env.LOCAL_PACKAGES_DIR)),
+  ];
+  const current = new Map(currentDependencies.map((dependency) => [dependency.identifier, dependency]));
+
+  const proposals = new Map<string, DependencyProposal>();
+  const unmatched: DeclaredDependency[] = [];
+  for (const dependency of dependencies) {
+    const match = matchPackage(dependency, packages);
+    if (!match) {
+      unmatched.push(dependency);
+      continue;
+    }
+    const { config, matchedBy } = match;
+    const existing = proposals.get(config.identifier);
+    // Several manifests may name the same package; keep the locked (installed) version
+    if (existing && (existing.locked || !dependency.locked)) {
+      continue;
+    }
+
+    let tag: string | undefined;
+    let resolvedTag: string | undefined;
+    const spec = toTagSpec(dependency);
+    // Local packages are read as they are on disk; tags only apply to clones and archives
+    if (spec && config.storage_type === "archive") {
+      // Archive versions are the registry's own, so the spec resolves as declared at query time
+      tag = spec;
+    } else if (spec && config.storage_type === "cloned") {
+      tag = spec;
+      const repoPath = config.urls.git
+        ? join(env.PACKAGES_DIR, getRepoIdentifierFromUrl(config.urls.git))
+        : undefined;
+      // Don't clone during a scan: only map to real tags of clones that exist
+      if (repoPath && existsSync(repoPath)) {
+        const resolved = await resolveTagSpec(repoPath, spec, config.identifier).catch(() => null);
+        if (dependency.locked) {
+          tag = resolved ?? spec;
+        } else if (resolved && resolved !== spec) {
+          // Pinning today's match would stop range resolution and drift from moving it forward
+          resolvedTag = resolved;
+        }
+      }
+    }
+
+    const currentTag = current.get(config.identifier)?.tag;
+    proposals.set(config.identifier, {
+      identifier: config.identifier,
+      tag,
+      ...(resolvedTag ? { resolvedTag } : {}),
+      name: dependency.name,
+      ecosystem: dependency.ecosystem,
+      version: dependency.version,
+      locked: dependency.locked,
+      source: dependency.source,
+      matchedBy,
+      action: !current.has(config.identifier)
+        ? "add"
+        : tag !== undefined && tag !== currentTag
+          ? "update"
+          : "unchanged",
+      currentTag,
+    });
+  }
+
+  return { files, proposals: [...proposals.values()], unmatched };
+}
@@ -71,6 +71,96 @@ async function withTimeout<T>(
   ]);
 }
 
+/**
+ * Error used when a query is cancelled through its AbortSignal
+ */
+function createAbortError(): Error {
+  const error = new Error("OpenCode query was cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Reject as soon as the signal is aborted, otherwise settle with the promise
+ */
+async function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    throw createAbortError();
+  }
+  let onAbort: () => void = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Sleep that wakes up early (without throwing) when the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Create an AbortController that is also aborted when `parent` is.
+ * Returns a cleanup function that detaches it from the parent.
+ */
+function linkAbortController(parent?: AbortSignal): {
+  controller: AbortController;
+  unlink: () => void;
+} {
+  const controller = new AbortController();
+  if (!parent) {
+    return { controller, unlink: () => {} };
+  }
+  const onAbort = () => controller.abort();
+  if (parent.aborted) {
+    controller.abort();
+  } else {
+    parent.addEventListener("abort", onAbort, { once: true });
+  }
+  return {
+    controller,
+    unlink: () => parent.removeEventListener("abort", onAbort),
+  };
+}
+
+/**
+ * Ask OpenCode to stop working on a session (cancelled or timed-out query).
+ * Logs errors; does not throw.
+ */
+async function abortOpencodeSession(
+  client: { session: { abort: (opts: unknown) => Promise<unknown> } },
+  sessionId: string,
+): Promise<void> {
+  try {
+    logger.log("[opencode]", `Aborting session ${sessionId}`);
+    await withTimeout(
+      client.session.abort({ path: { id: sessionId } }),
+      env.OPENCODE_FETCH_TIMEOUT_MS,
+      `Session abort timed out after ${env.OPENCODE_FETCH_TIMEOUT_MS}ms`,
+    );
+  } catch (error) {
+    logger.error("[opencode]", `Error aborting session ${sessionId}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
 /**
  * Poll for messages with timeout and retry logic
  */
@@ -81,6 +171,7 @@ async function pollForMessages(
   fetchTimeoutMs: number,
   pollIntervalMs: number,
   maxAttempts: number,
+  signal?: AbortSignal,
 ): Promise<unknown> {
   const messagesUrl = `${opencodeUrl}/session/${encodeURIComponent(sessionId)}/message?limit=5`;
   const urlObj = new URL(messagesUrl);
@@ -90,6 +181,9 @@ async function pollForMessages(
   const finalUrl = urlObj.toString();
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
     try {
       const response = await fetchWithTimeout(
         finalUrl,
@@ -126,7 +220,7 @@ async function pollForMessages(
 
       // If no assistant message yet, wait and retry
       if (attempt < maxAttempts - 1) {
-        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        await sleep(pollIntervalMs, signal);
       }
     } catch (error) {
       // If it's a timeout or last attempt, throw
@@ -140,7 +234,7 @@ async function pollForMessages(
         throw error;
       }
       // Otherwise, wait and retry
-      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      await sleep(pollIntervalMs, signal);
     }
   }
 
@@ -180,7 +274,11 @@ export async function* queryOpencodeStream(
   model?: OpencodeModel,
   sessionId?: string,
   kctxHelper?: string,
+  signal?: AbortSignal,
 ): AsyncGenerator<{ text: string; done: boolean; sessionId?: string; thinking?: string }, void, unknown> {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
   logger.log("[opencode]", `Starting streaming query for directory: ${repoPath}`);
   logger.log("[opencode]", `Query: ${query.substring(0, 100)}${query.length > 100 ? "..." : ""}`);
   if (model) {
@@ -217,8 +315,12 @@ export async function* queryOpencodeStream(
     baseUrl: opencodeUrl,
     directory: repoPath,
   }) as {
-    session: { create: (opts: unknown) => Promise<unknown>; prompt: (opts: unknown) => Promise<unknown> };
-    event: { subscribe: () => Promise<{ stream: AsyncIterable<{ type: string; properties?: unknown }> }> };
+    session: {
+      create: (opts: unknown) => Promise<unknown>;
+      prompt: (opts: unknown) => Promise<unknown>;
+      abort: (opts: unknown) => Promise<unknown>;
+    };
+    event: { subscribe: (opts?: { signal?: AbortSignal }) => Promise<{ stream: AsyncIterable<{ type: string; properties?: unknown }> }> };
   };
 
   // Create or reuse session
@@ -303,9 +405,20 @@ export async function* queryOpencodeStream(
     logger.log("[opencode]", `Reusing existing session: ${currentSessionId}`);
   }
 
+  // Closes the event subscription when the stream ends; also aborted by the caller's signal
+  const { controller: streamController, unlink } = linkAbortController(signal);
+  const streamSessionId = currentSessionId;
+  const onAbort = () => {
+    void abortOpencodeSession(client, streamSessionId);
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+  if (signal?.aborted) {
+    onAbort();
+  }
+
   try {
     const events = (await withTimeout(
-      client.event.subscribe(),
+      client.event.subscribe({ signal: streamController.signal }),
       env.OPENCODE_FETCH_TIMEOUT_MS,
       `Event subscription timed out after ${env.OPENCODE_FETCH_TIMEOUT_MS}ms`,
     )) as { stream: AsyncIterable<{ type: string; properties?: { info?: unknown; part?: unknown; error?: unknown } }> };
@@ -527,6 +640,10 @@ export async function* queryOpencodeStream(
         }
       }
 
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
       if (accumulatedText && !streamComplete) {
         if (heartbeatInterval) {
           clearInterval(heartbeatInterval);
@@ -551,6 +668,10 @@ export async function* queryOpencodeStream(
       logger.error("[opencode]", `Error stack:`, error.stack);
     }
     throw error;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    unlink();
+    streamController.abort();
   }
 }
 
@@ -560,13 +681,102 @@ export async function queryOpencode(
   sessionId?: string,
   timeoutMs?: number,
   kctxHelper?: string,
+  signal?: AbortSignal,
 ): Promise<{ response: string; sessionId: string }> {
   const ms = timeoutMs ?? env.OPENCODE_TIMEOUT_MS;
-  return withTimeout(
-    queryOpencodeInternal(repoPath, query, sessionId, kctxHelper),
-    ms,
-    `OpenCode query timed out after ${ms}ms`,
-  );
+  // Aborted on cancellation, timeout or error so the OpenCode session stops too
+  const { controller, unlink } = linkAbortController(signal);
+  try {
+    return await withTimeout(
+      withAbort(
+        queryOpencodeInternal(repoPath, query, sessionId, kctxHelper, controller.signal),
+        controller.signal,
+      ),
+      ms,
+      `OpenCode query timed out after ${ms}ms`,
+    );
+  } catch (error) {
+    controller.abort();
+    throw error;
+  } finally {
+    unlink();
+  }
+}
+
+export type OpencodeProgress =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string };
+
+/**
+ * Same contract as queryOpencode, but consumes queryOpencodeStream so the caller can
+ * report partial answer text, reasoning and tool activity while the query runs.
+ * onProgress receives only what is new since the previous call.
+ */
+export async function queryOpencodeWithProgress(
+  repoPath: string,
+  query: string,
+  sessionId: string | undefined,
+  timeoutMs: number | undefined,
+  kctxHelper: string | undefined,
+  onProgress: (progress: OpencodeProgress) => void,
+  signal?: AbortSignal,
+): Promise<{ response: string; sessionId: string }> {
+  const ms = timeoutMs ?? env.OPENCODE_TIMEOUT_MS;
+  const { controller, unlink } = linkAbortController(signal);
+
+  const consume = async (): Promise<{ response: string; sessionId: string }> => {
+    let response = "";
+    let lastThinking = "";
+    let currentSessionId = sessionId;
+
+    for await (const chunk of queryOpencodeStream(
+      repoPath,
+      query,
+      undefined,
+      sessionId,
+      kctxHelper,
+      controller.signal,
+    )) {
+      if (chunk.sessionId) {
+        currentSessionId = chunk.sessionId;
+      }
+      if (chunk.text) {
+        response += chunk.text;
+        onProgress({ type: "text", text: chunk.text });
+      }
+      if (chunk.thinking && chunk.thinking !== lastThinking) {
+        // Thinking is cumulative; forward only the new tail when it was appended to
+        const text = chunk.thinking.startsWith(lastThinking)
+          ? chunk.thinking.slice(lastThinking.length).replace(/^\n+/, "")
+          : chunk.thinking;
+        lastThinking = chunk.thinking;
+        if (text) {
+          onProgress({ type: "thinking", text });
+        }
+      }
+      if (chunk.done) {
+        break;
+      }
+    }
+
+    if (!currentSessionId) {
+      throw new Error(`OpenCode stream ended without a session`);
+    }
+    return { response, sessionId: currentSessionId };
+  };
+
+  try {
+    return await withTimeout(
+      withAbort(consume(), controller.signal),
+      ms,
+      `OpenCode query timed out after ${ms}ms`,
+    );
+  } catch (error) {
+    controller.abort();
+    throw error;
+  } finally {
+    unlink();
+  }
 }
 
 async function queryOpencodeInternal(
@@ -574,6 +784,7 @@ async function queryOpencodeInternal(
   query: string,
   sessionId?: string,
   kctxHelper?: string,
+  signal?: AbortSignal,
 ): Promise<{ response: string; sessionId: string }> {
   logger.log("[opencode]", `Starting query for directory: ${repoPath}`);
   logger.log("[opencode]", `Query: ${query.substring(0, 100)}${query.length > 100 ? "..." : ""}`);
@@ -607,7 +818,11 @@ async function queryOpencodeInternal(
     baseUrl: opencodeUrl,
     directory: repoPath,
   }) as {
-    session: { create: (opts: unknown) => Promise<unknown>; prompt: (opts: unknown) => Promise<unknown> };
+    session: {
+      create: (opts: unknown) => Promise<unknown>;
+      prompt: (opts: unknown) => Promise<unknown>;
+      abort: (opts: unknown) => Promise<unknown>;
+    };
   };
 
   let currentSessionId = sessionId;
@@ -687,6 +902,16 @@ async function queryOpencodeInternal(
     logger.log("[opencode]", `Reusing existing session: ${currentSessionId}`);
   }
 
+  if (signal?.aborted) {
+    void abortOpencodeSession(client, currentSessionId);
+    throw createAbortError();
+  }
+  const promptSessionId = currentSessionId;
+  const onAbort = () => {
+    void abortOpencodeSession(client, promptSessionId);
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
   try {
     logger.log("[opencode]", `Sending prompt message to session ${currentSessionId}`);
     let promptResult: { error?: { message?: string }; data?: { parts?: Array<{ type?: string; text?: string }> } };
@@ -738,6 +963,7 @@ async function queryOpencodeInternal(
       env.OPENCODE_FETCH_TIMEOUT_MS,
       env.OPENCODE_POLL_INTERVAL_MS,
       env.OPENCODE_MAX_POLL_ATTEMPTS,
+      signal,
     )) as { parts?: Array<{ type?: string; text?: string }> };
 
     if (!assistantMessage.parts || !Array.isArray(assistantMessage.parts) || assistantMessage.parts.length === 0) {
@@ -762,61 +988,20 @@ async function queryOpencodeInternal(
       logger.error("[opencode]", `Error in queryOpencode (opencode URL: ${opencodeUrl}):`, error instanceof Error ? error.message : String(error));
     }
     throw error;
-  }
-}
-
-/**
- * If the package has no kctx_helper, ask OpenCode for a repo summary and write it to the package config.
- * Intended to be called fire-and-forget after responding to a fresh-session query_dependency.
- * Uses 3x default timeout. Logs errors; does not throw.
- */
-export async function generateKctxHelperIfNeeded(
-  packagesDir: string,
-  identifier: string,
-  repoPath: string,
-): Promise<void> {
-  try {
-    const config = await readPackageConfig(packagesDir, identifier, true);
-    if (!config) {
-      logger.log("[opencode]", `generateKctxHelperIfNeeded: package not found ${identifier}`);
-      return;
-    }
-    if ((config.kctx_helper ?? "").trim() !== "") {
-      return;
-    }
-    const timeoutMs = env.OPENCODE_TIMEOUT_MS * 3;
-    logger.log("[opencode]", `Generating kctx_helper for ${identifier} (timeout ${timeoutMs}ms)`);
-    const result = await queryOpencode(
-      repoPath,
-      KCTX_HELPER_SUMMARY_PROMPT,
-      undefined,
-      timeoutMs,
-      undefined,
-    );
-    const updated = await readPackageConfig(packagesDir, identifier, true);
-    if (!updated) {
-      logger.log("[opencode]", `generateKctxHelperIfNeeded: package gone ${identifier}`);
-      return;
-    }
-    await writePackageConfig(packagesDir, { ...updated, kctx_helper: result.response });
-    logger.log("[opencode]", `Saved kctx_helper for ${identifier}`);
-  } catch (error) {
-    logger.error(
-      "[opencode]",
-      `generateKctxHelperIfNeeded failed for ${identifier}:`,
-      error instanceof Error ? error.message : String(error),
-    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
 /**
  * Regenerate kctx_helper for a package by asking OpenCode for a repo summary and writing it to the package config.
- * Always runs (unlike generateKctxHelperIfNeeded). Uses 3x default timeout. Throws on error.
+ * Run through kctx_helper jobs (see jobs.ts). Uses 3x default timeout. Throws on error.
  */
 export async function regenerateKctxHelper(
   packagesDir: string,
   identifier: string,
   repoPath: string,
+  signal?: AbortSignal,
 ): Promise<void> {
   const config = await readPackageConfig(packagesDir, identifier, true);
   if (!config) {
@@ -830,6 +1015,7 @@ export async function regenerateKctxHelper(
     undefined,
     timeoutMs,
     undefined,
+    signal,
   );
   const updated = await readPackageConfig(packagesDir, identifier, true);
   if (!updated) {
@@ -0,0 +1,90 @@
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { env } from "@kinetic-context/env/server";
+import { listPackageConfigs, readGlobalConfig, type PackageConfig } from "./config";
+import { getRepoIdentifierFromUrl, isTagRef } from "./git";
+import { enqueueJob } from "./jobs";
+import { logger } from "./logger";
+
+// How often packages are checked for being due; the intervals themselves are in minutes
+const AUTO_FETCH_CHECK_INTERVAL_MS = 60 * 1000;
+
+let scheduler: NodeJS.Timeout | null = null;
+let checking = false;
+
+/**
+ * Auto-fetch interval of a package in minutes: its own auto_fetch_interval_minutes,
+ * else the global default. 0 means never.
+ */
+export function getAutoFetchInterval(
+  packageConfig: PackageConfig,
+  globalIntervalMinutes: number | undefined,
+): number {
+  return packageConfig.auto_fetch_interval_minutes ?? globalIntervalMinutes ?? 0;
+}
+
+/**
+ * Periodically queue pull jobs (fetch branches and tags, pull the default branch) for
+ * cloned packages whose last update is older than their auto-fetch interval. Packages
+ * whose default_tag is a tag are skipped: pulling never changes what they read.
+ * Packages sharing a clone are fetched once, and the result is recorded on all of them.
+ */
+export function startAutoFetchScheduler(): void {
+  if (scheduler) {
+    return;
+  }
+  scheduler = setInterval(() => void checkAutoFetch(), AUTO_FETCH_CHECK_INTERVAL_MS);
+  scheduler.unref();
+  void checkAutoFetch();
+}
+
+async function checkAutoFetch(): Promise<void> {
+  // A slow filesystem can make a check outlast the interval
+  if (checking) {
+    return;
+  }
+  checking = true;
+  try {
+    const dataDir = dirname(env.PACKAGES_DIR) || "/data";
+    const { auto_fetch_interval_minutes: globalInterval } = await readGlobalConfig(dataDir);
+    const packages = await listPackageConfigs(env.PACKAGES_DIR);
+    const dueRepos = new Map<string, string>();
+    const now = Date.now();
+
+    for (const pkg of packages) {
+      const gitUrl = pkg.urls.git;
+      const interval = getAutoFetchInterval(pkg, globalInterval);
+      if (pkg.storage_type !== "cloned" || !gitUrl || interval === 0) {
+        continue;
+      }
+      const repoIdentifier = getRepoIdentifierFromUrl(gitUrl);
+      const repoPath = join(env.PACKAGES_DIR, repoIdentifier);
+      // Not cloned yet: the clone job takes care of it
+      if (dueRepos.has(repoIdentifier) || !existsSync(repoPath)) {
+        continue;
+      }
+      const lastUpdatedAt = pkg.last_updated ? Date.parse(pkg.last_updated.at) : 0;
+      if (now - lastUpdatedAt < interval * 60 * 1000) {
+        continue;
+      }
+      if (pkg.default_tag && (await isTagRef(repoPath, pkg.default_tag))) {
+        continue;
+      }
+      dueRepos.set(repoIdentifier, pkg.identifier);
+    }
+
+    for (const identifier of dueRepos.values()) {
+      // Already queued or running pulls are reused rather than queued twice
+      await enqueueJob("pull", identifier).catch((error) => {
+        logger.error("[auto-fetch]", `Failed to queue pull for ${identifier}:`, error);
+      });
+    }
+    if (dueRepos.size > 0) {
+      logger.log("[auto-fetch]", `Queued pulls for ${[...dueRepos.values()].join(", ")}`);
+    }
+  } catch (error) {
+    logger.error("[auto-fetch]", "Failed to check packages for auto-fetch:", error);
+  } finally {
+    checking = false;
+  }
+}
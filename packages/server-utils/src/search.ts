@@ -0,0 +1,121 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+
+export interface SearchOptions {
+  /** Treat the pattern as a literal string (default) or an extended regular expression */
+  mode?: "literal" | "regex";
+  caseSensitive?: boolean;
+  /** Optional glob limiting which files are searched, e.g. "src/**\/*.ts" */
+  path?: string;
+  /** Maximum number of matching lines returned */
+  maxResults?: number;
+  /** Lines of context before and after each match */
+  contextLines?: number;
+}
+
+export interface SearchMatch {
+  file: string;
+  line: number;
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_RESULTS = 50;
+const DEFAULT_CONTEXT_LINES = 2;
+// Minified bundles can have megabyte-long lines; keep results readable
+const MAX_LINE_LENGTH = 300;
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}…`
+    : line;
+}
+
+/**
+ * Search a repository's working tree with `git grep` and return file/line hits with context.
+ * Runs against whatever is checked out, so callers should check out the tag first.
+ * repoPath may be a subdirectory of a repository (a monorepo package); only it is searched
+ * and file paths are relative to it. Directories outside git are searched with `--no-index`.
+ */
+export async function searchRepository(
+  repoPath: string,
+  pattern: string,
+  options: SearchOptions = {},
+): Promise<SearchResult> {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+
+  // One extra hit per file so a single noisy file still reports truncation
+  const git = simpleGit(repoPath);
+  const args = ["grep", "-n", "-I", `--max-count=${maxResults + 1}`];
+  if (!(await git.checkIsRepo().catch(() => false))) {
+    args.push("--no-index");
+  }
+  args.push(options.mode === "regex" ? "-E" : "-F");
+  if (!options.caseSensitive) {
+    args.push("-i");
+  }
+  args.push("-z", "-e", pattern, "--");
+  if (options.path) {
+    args.push(`:(glob)${options.path}`);
+  }
+
+  let output: string;
+  try {
+    // git grep exits with 1 (and no stderr) when nothing matches; simple-git resolves with ""
+    output = await git.raw(args);
+  } catch (error) {
+    throw new Error(
+      `Failed to search ${repoPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  // With -z each hit is "file\0line\0text"
+  const hits: Array<{ file: string; line: number; text: string }> = [];
+  for (const row of output.split("\n")) {
+    if (!row) continue;
+    const [file, lineNumber, ...rest] = row.split("\0");
+    if (!file || !lineNumber) continue;
+    hits.push({ file, line: Number(lineNumber), text: rest.join("\0") });
+  }
+
+  const truncated = hits.length > maxResults;
+  const selected = hits.slice(0, maxResults);
+
+  const fileLines = new Map<string, string[]>();
+  const matches: SearchMatch[] = [];
+  for (const hit of selected) {
+    let lines = fileLines.get(hit.file);
+    if (!lines && contextLines > 0) {
+      try {
+        lines = (await readFile(join(repoPath, hit.file), "utf-8")).split("\n");
+      } catch {
+        lines = [];
+      }
+      fileLines.set(hit.file, lines);
+    }
+    const index = hit.line - 1;
+    matches.push({
+      file: hit.file,
+      line: hit.line,
+      text: clipLine(hit.text),
+      before: (lines ?? [])
+        .slice(Math.max(0, index - contextLines), index)
+        .map(clipLine),
+      after: (lines ?? [])
+        .slice(index + 1, index + 1 + contextLines)
+        .map(clipLine),
+    });
+  }
+
+  return { matches, truncated };
+}
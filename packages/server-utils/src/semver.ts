@@ -0,0 +1,210 @@
+/**
+ * Minimal semver parsing and ordering for git tag names.
+ * Tags are commonly prefixed ("v1.2.3", "zod@3.22.4", "release-1.2"), so the
+ * version is taken from the end of the name and missing minor/patch default to 0.
+ */
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN =
+  /(?:^|[^0-9A-Za-z])v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse the version at the end of a tag name, or null if it doesn't end in one.
+ */
+export function parseVersion(tag: string): Version | null {
+  const match = VERSION_PATTERN.exec(tag);
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+export function formatVersion(version: Version): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0
+    ? `${core}-${version.prerelease.join(".")}`
+    : core;
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Number(a) - Number(b);
+  }
+  // Numeric identifiers sort before alphanumeric ones
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Semver precedence: negative if a < b, positive if a > b, 0 if equal.
+ */
+export function compareVersions(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) {
+    return core;
+  }
+  // A pre-release has lower precedence than the release
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    const result = compareIdentifiers(left, right);
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return 0;
+}
+
+/** A parsed range: true when the version satisfies it */
+export type VersionRange = (version: Version) => boolean;
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+const COMPARATOR_PATTERN =
+  /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+function toVersion(partial: PartialVersion): Version {
+  return {
+    major: partial.major ?? 0,
+    minor: partial.minor ?? 0,
+    patch: partial.patch ?? 0,
+    prerelease: partial.prerelease,
+  };
+}
+
+function parsePartial(match: RegExpExecArray): PartialVersion {
+  const part = (value: string | undefined) =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value);
+  const major = part(match[2]);
+  const minor = major === undefined ? undefined : part(match[3]);
+  const patch = minor === undefined ? undefined : part(match[4]);
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== undefined && match[5] ? match[5].split(".") : [],
+  };
+}
+
+/**
+ * Exclusive upper bound of an X-range: 1 -> 2.0.0, 1.2 -> 1.3.0
+ */
+function nextAfterPartial(partial: PartialVersion): Version {
+  if (partial.minor === undefined) {
+    return { major: (partial.major ?? 0) + 1, minor: 0, patch: 0, prerelease: [] };
+  }
+  return { major: partial.major ?? 0, minor: partial.minor + 1, patch: 0, prerelease: [] };
+}
+
+function between(lower: Version, upper: Version | null): VersionRange {
+  return (version) =>
+    compareVersions(version, lower) >= 0 &&
+    (upper === null || compareVersions(version, upper) < 0);
+}
+
+function parseComparator(comparator: string): VersionRange | null {
+  const match = COMPARATOR_PATTERN.exec(comparator);
+  if (!match) {
+    return null;
+  }
+  const operator = match[1] ?? "=";
+  const partial = parsePartial(match);
+  const lower = toVersion(partial);
+  const full = partial.patch !== undefined;
+
+  if (partial.major === undefined) {
+    // "*", "x": anything (or nothing, for "<*" and ">*")
+    return operator === "<" || operator === ">" ? () => false : () => true;
+  }
+
+  switch (operator) {
+    case "^": {
+      // Changes that don't modify the left-most non-zero part
+      if (partial.major > 0 || partial.minor === undefined) {
+        return between(lower, { major: partial.major + 1, minor: 0, patch: 0, prerelease: [] });
+      }
+      if (partial.minor > 0 || partial.patch === undefined) {
+        return between(lower, { major: 0, minor: partial.minor + 1, patch: 0, prerelease: [] });
+      }
+      return between(lower, { major: 0, minor: 0, patch: partial.patch + 1, prerelease: [] });
+    }
+    case "~":
+      // Patch-level changes if a minor version is given, minor-level otherwise
+      return between(lower, nextAfterPartial({ ...partial, patch: undefined }));
+    case ">=":
+      return between(lower, null);
+    case ">":
+      return full
+        ? (version) => compareVersions(version, lower) > 0
+        : between(nextAfterPartial(partial), null);
+    case "<":
+      return (version) => compareVersions(version, lower) < 0;
+    case "<=":
+      return full
+        ? (version) => compareVersions(version, lower) <= 0
+        : (version) => compareVersions(version, nextAfterPartial(partial)) < 0;
+    default:
+      return full
+        ? (version) => compareVersions(version, lower) === 0
+        : between(lower, nextAfterPartial(partial));
+  }
+}
+
+/**
+ * Parse an npm-style range: "^4.1", "~2.3.0", "4.x", ">=1.2 <2", "1.2 - 1.4",
+ * "^1 || ^2", or "latest" / "latest release" (highest stable version).
+ * Returns null if the string is not a range, e.g. a branch name.
+ * Pre-release versions only match ranges that mention a pre-release.
+ */
+export function parseRange(spec: string): VersionRange | null {
+  const trimmed = spec.trim();
+  if (/^latest(\s+release)?$/i.test(trimmed)) {
+    return (version) => version.prerelease.length === 0;
+  }
+
+  const alternatives: VersionRange[] = [];
+  for (const alternative of trimmed.split("||")) {
+    // Hyphen range "A - B" is ">=A <=B"
+    const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(alternative);
+    const comparators = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : alternative.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/);
+    if (comparators.length === 0 || comparators[0] === "") {
+      return null;
+    }
+    const parsed = comparators.map(parseComparator);
+    if (parsed.some((range) => range === null)) {
+      return null;
+    }
+    alternatives.push((version) => parsed.every((range) => range!(version)));
+  }
+
+  const allowPrerelease = trimmed.includes("-") && !/\s-\s/.test(trimmed);
+  return (version) =>
+    (allowPrerelease || version.prerelease.length === 0) &&
+    alternatives.some((range) => range(version));
+}
@@ -0,0 +1,495 @@
+import { lstat, readdir, rmdir, stat } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { env } from "@kinetic-context/env/server";
+import { getArchiveRoot, listArchiveRoots, removeArchiveRoot } from "./archive";
+import { listPackageConfigs, readGlobalConfig, updateClonePackageConfigs, type PackageConfig } from "./config";
+import { getRepoIdentifierFromUrl, getWorktreeRoot, removeClone } from "./git";
+import { listJobs } from "./jobs";
+import { logger } from "./logger";
+
+// Clones are at <platform>/<user>/<repo> (or repo_<hash>) under PACKAGES_DIR
+const MAX_CLONE_DEPTH = 6;
+
+export interface WorktreeUsage {
+  /** Directory name, e.g. "v1.2.3-1a2b3c4d" */
+  name: string;
+  path: string;
+  bytes: number;
+}
+
+export interface CloneUsage {
+  /** Path relative to PACKAGES_DIR, e.g. "github.com/colinhacks/zod" or ".archives/npm/zod" */
+  id: string;
+  path: string;
+  /** A git clone, or the directory an archive package's versions are unpacked into */
+  kind: "clone" | "archive";
+  /** Disk used by the clone itself, including .git (for archives, only the directory) */
+  bytes: number;
+  /** Worktrees of a clone, or the unpacked versions of an archive */
+  worktrees: WorktreeUsage[];
+  worktreeBytes: number;
+  /** Cloned packages whose git URL uses this clone, or archive packages unpacked here */
+  packages: string[];
+  /** Latest query of any of those packages */
+  lastAccessedAt?: string;
+  /** No package uses the clone any more */
+  orphaned: boolean;
+  /** A clone, pull, reindex or archive download job for it is queued or running */
+  busy: boolean;
+}
+
+export interface DiskUsageReport {
+  clones: CloneUsage[];
+  /** Clones and their worktrees */
+  totalBytes: number;
+  /** What deleting the orphaned clones would free */
+  orphanedBytes: number;
+}
+
+export interface CloneGcResult {
+  removed: Array<{ id: string; bytes: number }>;
+  skipped: Array<{ id: string; reason: string }>;
+  freedBytes: number;
+}
+
+/**
+ * Disk allocated to a file or directory tree. Symlinks are counted, not followed.
+ */
+async function getDiskUsage(path: string): Promise<number> {
+  let total = 0;
+  const pending = [path];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    try {
+      const stats = await lstat(current);
+      total += stats.blocks * 512;
+      if (stats.isDirectory()) {
+        for (const entry of await readdir(current)) {
+          pending.push(join(current, entry));
+        }
+      }
+    } catch {
+      // Removed while scanning, or unreadable
+    }
+  }
+  return total;
+}
+
+/**
+ * Clone directories under PACKAGES_DIR. Hidden directories (worktree roots) are skipped
+ * and clones are not descended into.
+ */
+async function findClones(dir: string, depth = 0): Promise<string[]> {
+  if (depth > MAX_CLONE_DEPTH) {
+    return [];
+  }
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  if (depth > 0 && entries.some((entry) => entry.name === ".git")) {
+    return [dir];
+  }
+  const clones: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory() && !entry.name.startsWith(".")) {
+      clones.push(...(await findClones(join(dir, entry.name), depth + 1)));
+    }
+  }
+  return clones;
+}
+
+function cloneSize(clone: CloneUsage): number {
+  return clone.bytes + clone.worktreeBytes;
+}
+
+/**
+ * Disk usage of each subdirectory of root: a clone's worktree root or an archive root.
+ */
+async function getSubdirectoryUsage(root: string): Promise<WorktreeUsage[]> {
+  const entries = await readdir(root, { withFileTypes: true }).catch(() => []);
+  return Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory())
+      .map(async (entry) => {
+        const path = join(root, entry.name);
+        return { name: entry.name, path, bytes: await getDiskUsage(path) };
+      }),
+  );
+}
+
+interface CloneReference {
+  packages: string[];
+  lastAccessedAt?: string;
+}
+
+/**
+ * Map each clone path (and archive root) to the packages using it and when they were
+ * last queried.
+ */
+async function getCloneReferences(): Promise<Map<string, CloneReference>> {
+  const references = new Map<string, CloneReference>();
+  const add = (repoPath: string, config: PackageConfig) => {
+    const key = resolve(repoPath);
+    const reference = references.get(key) ?? { packages: [] };
+    if (!reference.packages.includes(config.identifier)) {
+      reference.packages.push(config.identifier);
+    }
+    if (
+      config.last_accessed_at &&
+      (!reference.lastAccessedAt || config.last_accessed_at > reference.lastAccessedAt)
+    ) {
+      reference.lastAccessedAt = config.last_accessed_at;
+    }
+    references.set(key, reference);
+  };
+  for (const config of await listPackageConfigs(env.PACKAGES_DIR)) {
+    if (config.storage_type === "archive" && config.archive) {
+      try {
+        add(getArchiveRoot(env.PACKAGES_DIR, config.archive, config.identifier), config);
+      } catch {
+        // Invalid package name: nothing can have been unpacked for it
+      }
+      continue;
+    }
+    if (config.storage_type !== "cloned") {
+      continue;
+    }
+    // A config may predate its clone, or still point at an older repo_path
+    if (config.urls.git) {
+      add(join(env.PACKAGES_DIR, getRepoIdentifierFromUrl(config.urls.git)), config);
+    }
+    if (config.repo_path) {
+      add(config.repo_path, config);
+    }
+  }
+  return references;
+}
+
+/**
+ * Report ids of the clones and archive roots a queued or running job works on. Jobs lock
+ * "repo:<clone id>" or "archive:<source>/<name>" (see enqueueJob).
+ */
+async function getBusyClones(): Promise<Set<string>> {
+  const busy = new Set<string>();
+  for (const job of await listJobs()) {
+    if (job.state !== "queued" && job.state !== "running") {
+      continue;
+    }
+    if (job.resource.startsWith("repo:")) {
+      busy.add(job.resource.slice("repo:".length));
+    } else if (job.resource.startsWith("archive:")) {
+      const [source, ...name] = job.resource.slice("archive:".length).split("/");
+      const archive = { source, name: name.join("/") } as NonNullable<PackageConfig["archive"]>;
+      try {
+        busy.add(relative(env.PACKAGES_DIR, getArchiveRoot(env.PACKAGES_DIR, archive, archive.name!)));
+      } catch {
+        // Invalid package name: the job fails without unpacking anything
+      }
+    }
+  }
+  return busy;
+}
+
+/**
+ * Disk usage of every clone under PACKAGES_DIR and its worktrees, and of every archive
+ * root and its unpacked versions, with the packages using it, largest first. Those no
+ * package uses are marked orphaned.
+ */
+export async function getDiskUsageReport(): Promise<DiskUsageReport> {
+  const [clonePaths, archivePaths, references, busy] = await Promise.all([
+    findClones(env.PACKAGES_DIR),
+    listArchiveRoots(env.PACKAGES_DIR),
+    getCloneReferences(),
+    getBusyClones(),
+  ]);
+  const paths = [
+    ...clonePaths.map((path) => ({ path, kind: "clone" as const })),
+    ...archivePaths.map((path) => ({ path, kind: "archive" as const })),
+  ];
+
+  const clones: CloneUsage[] = [];
+  for (const { path, kind } of paths) {
+    const id = relative(env.PACKAGES_DIR, path);
+    const [bytes, worktrees] =
+      kind === "clone"
+        ? await Promise.all([getDiskUsage(path), getSubdirectoryUsage(getWorktreeRoot(path))])
+        : await Promise.all([
+            lstat(path).then((stats) => stats.blocks * 512, () => 0),
+            getSubdirectoryUsage(path),
+          ]);
+    const reference = references.get(resolve(path));
+    const packages = (reference?.packages ?? []).sort();
+    clones.push({
+      id,
+      path,
+      kind,
+      bytes,
+      worktrees,
+      worktreeBytes: worktrees.reduce((sum, worktree) => sum + worktree.bytes, 0),
+      packages,
+      lastAccessedAt: reference?.lastAccessedAt,
+      orphaned: packages.length === 0,
+      busy: busy.has(id),
+    });
+  }
+  clones.sort((a, b) => cloneSize(b) - cloneSize(a));
+
+  return {
+    clones,
+    totalBytes: clones.reduce((sum, clone) => sum + cloneSize(clone), 0),
+    orphanedBytes: clones
+      .filter((clone) => clone.orphaned)
+      .reduce((sum, clone) => sum + cloneSize(clone), 0),
+  };
+}
+
+/**
+ * Remove the now-empty <platform>/<user> directories left above a deleted clone (or the
+ * .archives/<source>/@scope ones above an archive root).
+ */
+async function removeEmptyParents(repoPath: string): Promise<void> {
+  const root = resolve(env.PACKAGES_DIR);
+  let dir = dirname(resolve(repoPath));
+  while (dir !== root && dir.startsWith(`${root}/`)) {
+    try {
+      await rmdir(dir);
+    } catch {
+      // Not empty: other clones or package configs live here
+      return;
+    }
+    dir = dirname(dir);
+  }
+}
+
+function removeStorage(clone: { path: string; kind: CloneUsage["kind"] }): Promise<void> {
+  return clone.kind === "archive" ? removeArchiveRoot(clone.path) : removeClone(clone.path);
+}
+
+/**
+ * Delete orphaned clones and archive roots, as listed by getDiskUsageReport, with their
+ * worktrees or unpacked versions.
+ * Each clone is checked again first: one that a package started using, or that a job
+ * is working on, since the report was made is skipped.
+ */
+export async function collectOrphanedClones(ids: string[]): Promise<CloneGcResult> {
+  const report = await getDiskUsageReport();
+  const byId = new Map(report.clones.map((clone) => [clone.id, clone]));
+  const result: CloneGcResult = { removed: [], skipped: [], freedBytes: 0 };
+
+  for (const id of new Set(ids)) {
+    const clone = byId.get(id);
+    if (!clone) {
+      result.skipped.push({ id, reason: "Not a clone in the packages directory" });
+      continue;
+    }
+    if (!clone.orphaned) {
+      result.skipped.push({ id, reason: `Used by ${clone.packages.join(", ")}` });
+      continue;
+    }
+    if (clone.busy) {
+      result.skipped.push({ id, reason: "A job is running for this clone" });
+      continue;
+    }
+    try {
+      await removeStorage(clone);
+      await removeEmptyParents(clone.path);
+      const bytes = cloneSize(clone);
+      result.removed.push({ id, bytes });
+      result.freedBytes += bytes;
+      logger.log("[storage]", `Removed orphaned ${clone.kind === "archive" ? "archive" : "clone"} ${id} (${bytes} bytes)`);
+    } catch (error) {
+      logger.error("[storage]", `Failed to remove clone ${id}:`, error);
+      result.skipped.push({ id, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Delete the unpacked versions of an archive package that was just deleted, unless
+ * another package still unpacks into the same root. Failures are logged, not thrown:
+ * collectOrphanedClones can remove the root later.
+ */
+export async function removeUnusedArchive(config: PackageConfig): Promise<void> {
+  if (config.storage_type !== "archive" || !config.archive) {
+    return;
+  }
+  try {
+    const root = getArchiveRoot(env.PACKAGES_DIR, config.archive, config.identifier);
+    const users = (await getCloneReferences())
+      .get(resolve(root))
+      ?.packages.filter((identifier) => identifier !== config.identifier);
+    if (users?.length) {
+      return;
+    }
+    await removeArchiveRoot(root);
+    await removeEmptyParents(root);
+    logger.log("[storage]", `Removed unpacked versions of ${config.identifier} (${root})`);
+  } catch (error) {
+    logger.error("[storage]", `Failed to remove unpacked versions of ${config.identifier}:`, error);
+  }
+}
+
+// How often the eviction policy is applied
+const EVICTION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The disk budget never evicts clones queried this recently, so a budget that is too
+// small doesn't re-clone the same repositories over and over
+const MIN_BUDGET_EVICTION_IDLE_MS = DAY_MS;
+
+let evictionTimer: NodeJS.Timeout | null = null;
+let evicting = false;
+
+export interface EvictionPolicy {
+  /** Evict clones not queried for this many days; 0 disables it */
+  evictAfterDays: number;
+  /** Evict least recently queried clones while clones use more than this; 0 disables it */
+  diskBudgetBytes: number;
+}
+
+export interface EvictionCandidate {
+  id: string;
+  kind: CloneUsage["kind"];
+  packages: string[];
+  bytes: number;
+  /** Latest query of its packages, or when it was cloned if they were never queried */
+  idleSince: string;
+  reason: "idle" | "over_budget";
+}
+
+export interface EvictionPlan {
+  policy: EvictionPolicy;
+  /** Clones that would be evicted now, least recently queried first */
+  clones: EvictionCandidate[];
+  freedBytes: number;
+}
+
+export async function getEvictionPolicy(): Promise<EvictionPolicy> {
+  const dataDir = dirname(env.PACKAGES_DIR) || "/data";
+  const config = await readGlobalConfig(dataDir);
+  return {
+    evictAfterDays: config.evict_after_days ?? 0,
+    diskBudgetBytes: Math.round((config.disk_budget_gb ?? 0) * 1024 ** 3),
+  };
+}
+
+/**
+ * Clones the eviction policy would evict now. Orphaned clones are left to
+ * collectOrphanedClones (nothing would re-clone them), and clones with a job queued or
+ * running are skipped.
+ */
+export async function planCloneEviction(): Promise<EvictionPlan> {
+  const policy = await getEvictionPolicy();
+  if (policy.evictAfterDays === 0 && policy.diskBudgetBytes === 0) {
+    return { policy, clones: [], freedBytes: 0 };
+  }
+
+  const report = await getDiskUsageReport();
+  const now = Date.now();
+  const candidates: Array<{ clone: CloneUsage; idleSince: string }> = [];
+  for (const clone of report.clones) {
+    if (clone.orphaned || clone.busy) {
+      continue;
+    }
+    const idleSince =
+      clone.lastAccessedAt ??
+      (await stat(clone.path).then(
+        (stats) => stats.mtime.toISOString(),
+        () => new Date(now).toISOString(),
+      ));
+    candidates.push({ clone, idleSince });
+  }
+  candidates.sort((a, b) => a.idleSince.localeCompare(b.idleSince));
+
+  const clones: EvictionCandidate[] = [];
+  let remainingBytes = report.totalBytes;
+  for (const { clone, idleSince } of candidates) {
+    const idleMs = now - Date.parse(idleSince);
+    let reason: EvictionCandidate["reason"];
+    if (policy.evictAfterDays > 0 && idleMs > policy.evictAfterDays * DAY_MS) {
+      reason = "idle";
+    } else if (
+      policy.diskBudgetBytes > 0 &&
+      remainingBytes > policy.diskBudgetBytes &&
+      idleMs > MIN_BUDGET_EVICTION_IDLE_MS
+    ) {
+      reason = "over_budget";
+    } else {
+      continue;
+    }
+    const bytes = cloneSize(clone);
+    clones.push({ id: clone.id, kind: clone.kind, packages: clone.packages, bytes, idleSince, reason });
+    remainingBytes -= bytes;
+  }
+
+  return {
+    policy,
+    clones,
+    freedBytes: clones.reduce((sum, clone) => sum + clone.bytes, 0),
+  };
+}
+
+/**
+ * Evict the clones planCloneEviction picks. Package configs are kept and marked with
+ * `evicted_at`; the next query re-clones the repository (see ensureRepoAvailable).
+ * Evicted archive versions are downloaded and unpacked again by the next query that
+ * reads them (see ensureArchiveUnpacked).
+ */
+export async function evictColdClones(): Promise<CloneGcResult> {
+  const plan = await planCloneEviction();
+  const result: CloneGcResult = { removed: [], skipped: [], freedBytes: 0 };
+
+  for (const clone of plan.clones) {
+    try {
+      const path = join(env.PACKAGES_DIR, clone.id);
+      await removeStorage({ path, kind: clone.kind });
+      await removeEmptyParents(path);
+      if (clone.kind === "clone") {
+        const evictedAt = new Date().toISOString();
+        await updateClonePackageConfigs(env.PACKAGES_DIR, clone.id, (config) => ({
+          ...config,
+          evicted_at: evictedAt,
+        }));
+      }
+      result.removed.push({ id: clone.id, bytes: clone.bytes });
+      result.freedBytes += clone.bytes;
+      logger.log(
+        "[storage]",
+        `Evicted ${clone.reason === "idle" ? "idle" : "least recently used"} ${clone.kind === "archive" ? "archive" : "clone"} ${clone.id} (${clone.bytes} bytes, idle since ${clone.idleSince})`,
+      );
+    } catch (error) {
+      logger.error("[storage]", `Failed to evict clone ${clone.id}:`, error);
+      result.skipped.push({
+        id: clone.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply the eviction policy (evict_after_days and disk_budget_gb in the global config)
+ * now and then every hour.
+ */
+export function startCloneEviction(): void {
+  if (evictionTimer) {
+    return;
+  }
+  evictionTimer = setInterval(() => void runCloneEviction(), EVICTION_CHECK_INTERVAL_MS);
+  evictionTimer.unref();
+  void runCloneEviction();
+}
+
+async function runCloneEviction(): Promise<void> {
+  // Measuring large clones can outlast the interval
+  if (evicting) {
+    return;
+  }
+  evicting = true;
+  try {
+    await evictColdClones();
+  } catch (error) {
+    logger.error("[storage]", "Failed to apply the clone eviction policy:", error);
+  } finally {
+    evicting = false;
+  }
+}
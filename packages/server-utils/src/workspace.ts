@@ -0,0 +1,145 @@
+import { existsSync } from "node:fs";
+import { basename, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { env } from "@kinetic-context/env/server";
+import simpleGit from "simple-git";
+import { listProjectConfigs, type ProjectConfig } from "./config";
+import { discoverGitRepositories, getRepoIdentifierFromUrl } from "./git";
+
+export interface WorkspaceHints {
+  /** Git remote URLs of the caller's workspace (https or ssh) */
+  gitRemotes?: string[];
+  /** Workspace directories or file:// root URIs */
+  workspacePaths?: string[];
+}
+
+export interface ProjectMatch {
+  identifier: string;
+  /**
+   * git_remote: a given remote URL matched urls.git;
+   * workspace_remote: a remote read from the workspace's git repo matched;
+   * workspace_name: the workspace directory name matched the project (fallback
+   * when the server cannot read the path, e.g. when running in Docker)
+   */
+  matchedBy: "git_remote" | "workspace_remote" | "workspace_name";
+  value: string;
+}
+
+function toPath(pathOrUri: string): string {
+  return pathOrUri.startsWith("file://") ? fileURLToPath(pathOrUri) : pathOrUri;
+}
+
+/**
+ * Remote URLs of a git repository on this machine; empty if the path is not readable.
+ */
+async function readGitRemotes(path: string): Promise<string[]> {
+  if (!existsSync(join(path, ".git"))) {
+    return [];
+  }
+  try {
+    const remotes = await simpleGit(path).getRemotes(true);
+    return remotes.flatMap((remote) => [remote.refs.fetch, remote.refs.push]).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Projects keyed by normalized repository identifier (urls.git, then urls.git_browser)
+ */
+function indexProjectsByRepo(projects: ProjectConfig[]): Map<string, string> {
+  const byRepo = new Map<string, string>();
+  for (const project of projects) {
+    for (const url of [project.urls.git, project.urls.git_browser]) {
+      if (url) {
+        const key = getRepoIdentifierFromUrl(url);
+        if (!byRepo.has(key)) {
+          byRepo.set(key, project.identifier);
+        }
+      }
+    }
+  }
+  return byRepo;
+}
+
+/**
+ * Work out which configured project a caller is working in, from its git remote
+ * URLs and/or workspace paths. Remotes are matched against ProjectConfig.urls.git
+ * (normalized, so https and ssh forms of the same repo match). Returns null when
+ * nothing matches or a name-only match is ambiguous.
+ */
+export async function resolveProjectFromWorkspace(
+  hints: WorkspaceHints,
+): Promise<ProjectMatch | null> {
+  const projects = await listProjectConfigs(env.PROJECTS_DIR);
+  if (projects.length === 0) {
+    return null;
+  }
+  const byRepo = indexProjectsByRepo(projects);
+
+  for (const remote of hints.gitRemotes ?? []) {
+    const identifier = byRepo.get(getRepoIdentifierFromUrl(remote));
+    if (identifier) {
+      return { identifier, matchedBy: "git_remote", value: remote };
+    }
+  }
+
+  const paths = (hints.workspacePaths ?? []).map(toPath);
+  for (const path of paths) {
+    for (const remote of await readGitRemotes(path)) {
+      const identifier = byRepo.get(getRepoIdentifierFromUrl(remote));
+      if (identifier) {
+        return { identifier, matchedBy: "workspace_remote", value: remote };
+      }
+    }
+  }
+
+  // Fallback: directory name equals the project identifier or its repository name
+  for (const path of paths) {
+    const name = basename(path.replace(/[/\\]+$/, "")).toLowerCase();
+    if (!name) continue;
+    const candidates = projects.filter((project) => {
+      const repoName = project.urls.git
+        ? getRepoIdentifierFromUrl(project.urls.git).split("/").pop()
+        : undefined;
+      return project.identifier.toLowerCase() === name || repoName === name;
+    });
+    if (candidates.length === 1) {
+      return {
+        identifier: candidates[0]!.identifier,
+        matchedBy: "workspace_name",
+        value: path,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a project's checkout among the git repositories under PROJECTS_DIR (the ones
+ * scanProjects lists): a remote matching urls.git first, then a directory named like
+ * the project identifier. Returns null if the project isn't checked out there.
+ */
+export async function findProjectCheckout(project: ProjectConfig): Promise<string | null> {
+  const repositories = await discoverGitRepositories(env.PROJECTS_DIR);
+  const projectRepos = new Set(
+    [project.urls.git, project.urls.git_browser]
+      .filter((url): url is string => !!url)
+      .map(getRepoIdentifierFromUrl),
+  );
+
+  if (projectRepos.size > 0) {
+    for (const repository of repositories) {
+      const remotes = await readGitRemotes(repository.path);
+      if (remotes.some((remote) => projectRepos.has(getRepoIdentifierFromUrl(remote)))) {
+        return repository.path;
+      }
+    }
+  }
+
+  const byName = repositories.find(
+    (repository) => basename(repository.path).toLowerCase() === project.identifier.toLowerCase(),
+  );
+  return byName?.path ?? null;
+}